@@ -1,264 +1,1256 @@
-import { useState, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import CrosshairLayer from './CrosshairLayer';
+import PerformancePanel from './PerformancePanel';
+import ShapeLayer from './ShapeLayer';
+import { benchmarkCount, createBenchmarkLayout } from './benchmark';
+import useHistory from './useHistory';
+import {
+  HANDLE_CURSORS,
+  HANDLE_SIZE,
+  MIN_SIZE,
+  RESIZE_HANDLES,
+  boxFrom,
+  bringToFront,
+  createId,
+  describeRectangle,
+  findMergeGroup,
+  handleBounds,
+  hitHandle,
+  intersects,
+  mergeRectangles,
+  resizeBounds,
+  sendToBack,
+  unionBounds,
+  updateRectangles,
+  type Bounds,
+  type Layout,
+  type Rectangle,
+  type ResizeHandle
+} from './rectangles';
+import {
+  BENCHMARK_STORAGE_KEY,
+  STORAGE_KEY,
+  downloadFile,
+  exportPng,
+  exportSvg,
+  loadAutosave,
+  parseLayout,
+  type LoadedLayout,
+  saveAutosave,
+  serializeLayout
+} from './persistence';
+import { $pointer, $pointerType } from './pointerStore';
+import { createSpatialIndex } from './spatialIndex';
+import {
+  SPLIT_MODES,
+  applySplit,
+  planSplit,
+  type SplitMode,
+  type SplitOptions,
+  type SplitScope
+} from './splitting';
+import { DEFAULT_GRID_SIZE, GUIDE_THRESHOLD, alignBounds, snapPoint, snapValue, type Guide } from './snapping';
+import {
+  IDENTITY_VIEWPORT,
+  fitBounds,
+  screenToWorld,
+  wheelZoomFactor,
+  zoomAt,
+  type Viewport
+} from './viewport';
 
 interface MousePosition {
   x: number;
   y: number;
 }
 
-interface Rectangle {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  color: string;
+interface DragState {
+  start: MousePosition;
+  startOnScreen: MousePosition;
+  moved: boolean;
+  origins: Record<number, MousePosition>;
+  bounds: Bounds;
 }
 
+interface ResizeState {
+  index: number;
+  handle: ResizeHandle;
+  start: Bounds;
+}
+
+interface PanState {
+  start: MousePosition;
+  origin: Viewport;
+}
+
+const ZOOM_STEP = 1.25;
+
+// Screen pixels a press may wander before it counts as a drag rather than a click.
+const DRAG_THRESHOLD = 3;
+
+const SPLIT_PARTS = [2, 3, 4, 5, 6];
+
+// Touch has no hover crosshair, so a held finger or a quick two-finger tap splits instead.
+const LONG_PRESS_DELAY = 500;
+const TWO_FINGER_TAP_DURATION = 300;
+
+interface TouchGesture {
+  startedAt: number;
+  startDistance: number;
+  startMid: MousePosition;
+  origin: Viewport;
+  moved: boolean;
+}
+
+// How far, in screen pixels, from a shared edge a double-click may land and still merge its pieces.
+const EDGE_TOLERANCE = 4;
+
+// How long a click on a rectangle waits before cutting it in under-cursor mode, so that the second
+// click of a double-click can call the cut off and merge instead.
+const DOUBLE_CLICK_DELAY = 300;
+
+const LAYER_LIST_LIMIT = 200;
+
+// Milliseconds without a new history entry before the layout is written to storage.
+const AUTOSAVE_DELAY = 500;
+
+// Keyboard steps in screen pixels for the crosshair and world pixels for a rectangle; Shift nudges by one.
+const ARROW_STEP = 10;
+
+const ARROW_DELTAS: Record<string, MousePosition> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }
+};
+
+const toolbarButton = 'px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm disabled:opacity-40';
+
 export default function CursorCrosshairs(): React.ReactElement {
-  const [mousePos, setMousePos] = useState<MousePosition>({ x: 0, y: 0 });
-  const [rectangles, setRectangles] = useState<Rectangle[]>([]);
+  // A `?bench=` layout is generated fresh and autosaved apart from the user's own work.
+  const [benchmark] = useState(benchmarkCount);
+  const [loaded] = useState<LoadedLayout>(() =>
+    benchmark ? { layout: createBenchmarkLayout(benchmark), error: null } : loadAutosave()
+  );
+  const history = useHistory<Layout>(loaded.layout);
+  const layout = history.present;
+  const { rectangles } = layout;
+  const index = useMemo(() => createSpatialIndex(rectangles), [rectangles]);
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPos, setStartPos] = useState<MousePosition>({ x: 0, y: 0 });
-  const [draggedRect, setDraggedRect] = useState<number | null>(null);
-  const [dragOffset, setDragOffset] = useState<MousePosition>({ x: 0, y: 0 });
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const [lassoStart, setLassoStart] = useState<MousePosition | null>(null);
+  const [splitSelectedOnly, setSplitSelectedOnly] = useState(false);
+  const [snapEnabled, setSnapEnabled] = useState(false);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [splitScope, setSplitScope] = useState<SplitScope>('all');
+  const [splitMode, setSplitMode] = useState<SplitMode>('both');
+  const [splitParts, setSplitParts] = useState<number | null>(null);
+  const [minSize, setMinSize] = useState(MIN_SIZE);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState(loaded.error);
+  // Nothing is written until the layout first changes, so opening the editor never replaces a save.
+  const changedRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<Viewport>(IDENTITY_VIEWPORT);
+  const [panning, setPanning] = useState<PanState | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [canvasSize, setCanvasSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [touchActive, setTouchActive] = useState(false);
+  const touchPointsRef = useRef(new Map<number, MousePosition>());
+  const gestureRef = useRef<TouchGesture | null>(null);
+  const longPressRef = useRef<number | null>(null);
+  const pressStartRef = useRef<MousePosition>({ x: 0, y: 0 });
+  const clickSplitRef = useRef<number | null>(null);
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
 
   const colors = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57'];
 
-  const divideCrosshairRectangles = (clickX: number, clickY: number): void => {
-    const minSize = 30; 
-    const newRectangles: Rectangle[] = [];
-    let rectanglesChanged = false;
-
-    rectangles.forEach(rectangle => {
-      const horizontalIntersects = clickY > rectangle.y && clickY < rectangle.y + rectangle.height;
-      const verticalIntersects = clickX > rectangle.x && clickX < rectangle.x + rectangle.width;
-
-      if (horizontalIntersects || verticalIntersects) {
-        const canDivideHorizontally = horizontalIntersects && rectangle.height >= minSize * 2;
-        const canDivideVertically = verticalIntersects && rectangle.width >= minSize * 2;
-
-        if (canDivideHorizontally || canDivideVertically) {
-          rectanglesChanged = true;
-          
-          if (canDivideHorizontally && canDivideVertically) {
-            const relativeY = clickY - rectangle.y;
-            const relativeX = clickX - rectangle.x;
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random(),
-              width: relativeX,
-              height: relativeY
-            });
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random() + 1,
-              x: rectangle.x + relativeX,
-              width: rectangle.width - relativeX,
-              height: relativeY
-            });
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random() + 2,
-              y: rectangle.y + relativeY,
-              width: relativeX,
-              height: rectangle.height - relativeY
-            });
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random() + 3,
-              x: rectangle.x + relativeX,
-              y: rectangle.y + relativeY,
-              width: rectangle.width - relativeX,
-              height: rectangle.height - relativeY
-            });
-            
-          } else if (canDivideHorizontally) {
-            const relativeY = clickY - rectangle.y;
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random(),
-              height: relativeY
-            });
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random() + 1,
-              y: rectangle.y + relativeY,
-              height: rectangle.height - relativeY
-            });
-            
-          } else if (canDivideVertically) {
-            const relativeX = clickX - rectangle.x;
-
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random(),
-              width: relativeX
-            });
-            
-            newRectangles.push({
-              ...rectangle,
-              id: Date.now() + Math.random() + 1,
-              x: rectangle.x + relativeX,
-              width: rectangle.width - relativeX
-            });
-          }
-        } else {
-          newRectangles.push(rectangle);
-        }
+  const snap = (point: MousePosition): MousePosition => snapEnabled ? snapPoint(point, gridSize) : point;
+
+  const splitTargets = splitSelectedOnly && selectedIds.length > 0 ? selectedIds : undefined;
+
+  const toScreen = (e: React.MouseEvent): MousePosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const toWorld = (e: React.MouseEvent): MousePosition => screenToWorld(view, toScreen(e));
+
+  const zoomAtCenter = (factor: number): void => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    const center = rect ? { x: rect.width / 2, y: rect.height / 2 } : { x: 0, y: 0 };
+    setView(prev => zoomAt(prev, center, factor));
+  };
+
+  const zoomToFit = (): void => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rectangles.length === 0) {
+      setView(IDENTITY_VIEWPORT);
+      return;
+    }
+    setView(fitBounds(unionBounds(rectangles), rect.width, rect.height));
+  };
+
+  const splitOptions = (targetIds?: number[]): SplitOptions => ({
+    mode: splitMode,
+    scope: splitScope,
+    parts: splitParts,
+    minSize,
+    targetIds
+  });
+
+  const divideCrosshairRectangles = (clickX: number, clickY: number, targetIds?: number[]): void => {
+    const point = { x: clickX, y: clickY };
+    const options = splitOptions(targetIds);
+    const cuts = planSplit(index, point, options);
+
+    if (cuts.length > 0) {
+      const next = applySplit(layout, cuts);
+      // The split is planned again if the layout changed since this render, so it never restores
+      // rectangles from an older layout.
+      history.set(prev => prev === layout
+        ? next
+        : applySplit(prev, planSplit(createSpatialIndex(prev.rectangles), point, options)));
+      setAnnouncement(
+        `Split ${cuts.length} ${cuts.length === 1 ? 'rectangle' : 'rectangles'}; ` +
+        `${next.rectangles.length} rectangles on the canvas.`
+      );
+    }
+  };
+
+  const finishDrawing = (end: MousePosition): void => {
+    const x = Math.min(startPos.x, end.x);
+    const y = Math.min(startPos.y, end.y);
+    const width = Math.abs(end.x - startPos.x);
+    const height = Math.abs(end.y - startPos.y);
+
+    if (width > 5 && height > 5) {
+      const newRect: Rectangle = {
+        id: createId(),
+        x,
+        y,
+        width,
+        height,
+        color: colors[rectangles.length % colors.length]
+      };
+
+      history.set(updateRectangles(prev => [...prev, newRect]));
+      setAnnouncement(`Drew ${describeRectangle(newRect, rectangles.length)}.`);
+    }
+
+    setIsDrawing(false);
+  };
+
+  const mergeSelected = (): void => {
+    if (selectedIds.length !== 1) return;
+
+    const merged = mergeRectangles(layout, selectedIds[0]);
+    if (merged) {
+      history.set(merged);
+      setSelectedIds([]);
+      setAnnouncement('Merged the pieces back into their original rectangle.');
+    }
+  };
+
+  const canMergeSelected = selectedIds.length === 1 && findMergeGroup(layout, selectedIds[0]) !== null;
+
+  const deleteSelected = (): void => {
+    if (selectedIds.length === 0) return;
+
+    history.set(updateRectangles(prev => prev.filter(rectangle => !selectedIds.includes(rectangle.id))));
+    setSelectedIds([]);
+    setAnnouncement(`Deleted ${selectedIds.length} ${selectedIds.length === 1 ? 'rectangle' : 'rectangles'}.`);
+  };
+
+  const handleFocusShape = useCallback((id: number): void => {
+    setFocusedId(id);
+  }, []);
+
+  const revealRectangle = (target: Rectangle): void => {
+    if (intersects(target, visibleBounds)) return;
+
+    setView(prev => ({
+      ...prev,
+      x: canvasSize.width / 2 - (target.x + target.width / 2) * prev.scale,
+      y: canvasSize.height / 2 - (target.y + target.height / 2) * prev.scale
+    }));
+  };
+
+  const moveRectangle = (id: number, dx: number, dy: number): void => {
+    const position = rectangles.findIndex(rectangle => rectangle.id === id);
+    if (position === -1) return;
+
+    const moved = { ...rectangles[position], x: rectangles[position].x + dx, y: rectangles[position].y + dy };
+    history.set(updateRectangles(prev => prev.map(rectangle => rectangle.id === id ? moved : rectangle)));
+    setAnnouncement(`Moved ${describeRectangle(moved, position)}.`);
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent): void => {
+    const shapeId = (e.target as HTMLElement).dataset.rectangleId;
+    const focused = shapeId !== undefined ? Number(shapeId) : null;
+    const delta = ARROW_DELTAS[e.key];
+
+    if (delta) {
+      e.preventDefault();
+      const step = e.shiftKey ? 1 : ARROW_STEP;
+
+      if (focused !== null) {
+        moveRectangle(focused, delta.x * step, delta.y * step);
       } else {
-        newRectangles.push(rectangle);
+        const pointer = $pointer.get();
+        $pointerType.set('keyboard');
+        $pointer.set({
+          x: Math.min(canvasSize.width, Math.max(0, pointer.x + delta.x * step)),
+          y: Math.min(canvasSize.height, Math.max(0, pointer.y + delta.y * step))
+        });
       }
-    });
+      return;
+    }
+
+    // Tab walks every rectangle in paint order, including ones scrolled out of view, then leaves.
+    if (e.key === 'Tab' && focused !== null) {
+      const next = rectangles.findIndex(rectangle => rectangle.id === focused) + (e.shiftKey ? -1 : 1);
+      if (next < 0 || next >= rectangles.length) return;
+
+      e.preventDefault();
+      setFocusedId(rectangles[next].id);
+      setSelectedIds([rectangles[next].id]);
+      revealRectangle(rectangles[next]);
+      return;
+    }
+
+    if (focused !== null) {
+      // Rectangles are buttons, so Space selects them like Enter does.
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        selectLayer(focused, e.shiftKey);
+      }
+      return;
+    }
+
+    const cursor = snap(screenToWorld(view, $pointer.get()));
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      divideCrosshairRectangles(cursor.x, cursor.y, splitTargets);
+    } else if (e.key.toLowerCase() === 'd' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      if (isDrawing) {
+        finishDrawing(cursor);
+      } else {
+        setIsDrawing(true);
+        setStartPos(cursor);
+        setAnnouncement('Drawing started. Move the crosshair and press D again to finish.');
+      }
+    } else if (e.key === 'Escape' && isDrawing) {
+      e.preventDefault();
+      setIsDrawing(false);
+      setAnnouncement('Drawing cancelled.');
+    }
+  };
+
+  const raiseSelected = (): void => {
+    if (selectedIds.length > 0) history.set(updateRectangles(prev => bringToFront(prev, selectedIds)));
+  };
+
+  const lowerSelected = (): void => {
+    if (selectedIds.length > 0) history.set(updateRectangles(prev => sendToBack(prev, selectedIds)));
+  };
+
+  const selectLayer = (id: number, additive: boolean): void => {
+    if (!additive) {
+      setSelectedIds([id]);
+    } else {
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+    }
+  };
+
+  const recolorSelected = (color: string): void => {
+    if (selectedIds.length === 0) return;
+
+    history.set(updateRectangles(prev => prev.map(rectangle =>
+      selectedIds.includes(rectangle.id) ? { ...rectangle, color } : rectangle
+    )));
+  };
+
+  const { committed } = history;
+
+  // Drags and resizes preview on every pointer move, so only settled entries are saved, and only once
+  // edits pause. Leaving the page saves straight away.
+  useEffect(() => {
+    if (!changedRef.current) {
+      if (committed === loaded.layout) return;
+      changedRef.current = true;
+    }
+
+    const save = (): void => {
+      try {
+        saveAutosave(committed, benchmark ? BENCHMARK_STORAGE_KEY : STORAGE_KEY);
+        setAutosaveError(null);
+      } catch (error) {
+        setAutosaveError(error instanceof Error ? error.message : String(error));
+      }
+    };
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY);
+    window.addEventListener('pagehide', save);
+
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [benchmark, committed, loaded]);
+
+  const importLayout = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-    if (rectanglesChanged) {
-      setRectangles(newRectangles);
+    try {
+      const imported = parseLayout(await file.text());
+      history.set(imported);
+      setSelectedIds([]);
+      setFileError(null);
+    } catch (error) {
+      setFileError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const downloadPng = async (): Promise<void> => {
+    try {
+      downloadFile(await exportPng(rectangles), 'layout.png', 'image/png');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
     }
   };
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent): void => {
-      setMousePos({ x: e.clientX, y: e.clientY });
+    const handlePointerMove = (e: PointerEvent): void => {
+      $pointer.set({ x: e.clientX, y: e.clientY });
+      $pointerType.set(e.pointerType);
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('pointermove', handlePointerMove);
     
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('pointermove', handlePointerMove);
     };
   }, []);
 
-  const handleMouseDown = (e: React.MouseEvent): void => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  const clearClickSplit = (): void => {
+    if (clickSplitRef.current !== null) {
+      window.clearTimeout(clickSplitRef.current);
+      clickSplitRef.current = null;
+    }
+  };
 
-    const clickedRect = rectangles.findIndex(rectangle => 
-      x >= rectangle.x && x <= rectangle.x + rectangle.width &&
-      y >= rectangle.y && y <= rectangle.y + rectangle.height
-    );
+  // A click waiting to split is dropped once anything else changes the layout.
+  useEffect(() => clearClickSplit, [layout]);
+
+  const clearLongPress = (): void => {
+    if (longPressRef.current !== null) {
+      window.clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
+  // Ends whatever the press started without acting on its release: drags and resizes keep their
+  // current position, unfinished drawings and lassos are dropped.
+  const finishInteraction = (): void => {
+    clearLongPress();
+    if (dragging !== null || resizing !== null) history.commit();
+    setDragging(null);
+    setResizing(null);
+    setGuides([]);
+    setIsDrawing(false);
+    setLassoStart(null);
+    setPanning(null);
+  };
+
+  const touchSplit = (screen: MousePosition): void => {
+    finishInteraction();
+    const point = snap(screenToWorld(view, screen));
+    divideCrosshairRectangles(point.x, point.y, splitTargets);
+  };
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+
+    const observer = new ResizeObserver(() => {
+      setCanvasSize({ width: overlay.clientWidth, height: overlay.clientHeight });
+    });
+    observer.observe(overlay);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, []);
+
+  // Only rectangles inside the viewport are rendered; the rest exist only in the index.
+  const visibleBounds = useMemo(() => {
+    const topLeft = screenToWorld(view, { x: 0, y: 0 });
+    return {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: canvasSize.width / view.scale,
+      height: canvasSize.height / view.scale
+    };
+  }, [view, canvasSize]);
+
+  const visible = useMemo(() => index.queryBounds(visibleBounds), [index, visibleBounds]);
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+
+    // Trackpad pinches arrive as wheel events with ctrlKey set, so both zoom the same way.
+    const handleWheel = (e: WheelEvent): void => {
+      e.preventDefault();
+      const rect = overlay.getBoundingClientRect();
+      const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setView(prev => zoomAt(prev, point, wheelZoomFactor(e.deltaY)));
+    };
+
+    overlay.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      overlay.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyUp = (e: KeyboardEvent): void => {
+      if (e.key === ' ') setSpaceHeld(false);
+    };
+
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const { undo, redo } = history;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      // Form controls keep their own keys, and a key the canvas has already handled is not acted on twice.
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.defaultPrevented) return;
+
+      if (!(e.ctrlKey || e.metaKey)) {
+        if (e.key === ' ' && !(e.target instanceof HTMLButtonElement)) {
+          e.preventDefault();
+          setSpaceHeld(true);
+        }
+        if (e.key.toLowerCase() === 'm') mergeSelected();
+        if (e.key === 'Delete' || e.key === 'Backspace') deleteSelected();
+        if (e.key === 'Escape') setSelectedIds([]);
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'a') {
+        e.preventDefault();
+        setSelectedIds(rectangles.map(rectangle => rectangle.id));
+      } else if (e.key === '=' || e.key === '+') {
+        e.preventDefault();
+        zoomAtCenter(ZOOM_STEP);
+      } else if (e.key === '-') {
+        e.preventDefault();
+        zoomAtCenter(1 / ZOOM_STEP);
+      } else if (e.key === '0') {
+        e.preventDefault();
+        setView(IDENTITY_VIEWPORT);
+      } else if (e.key === ']') {
+        e.preventDefault();
+        raiseSelected();
+      } else if (e.key === '[') {
+        e.preventDefault();
+        lowerSelected();
+      } else if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+
+  const handlePointerDown = (e: React.PointerEvent): void => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    $pointerType.set(e.pointerType);
+
+    if (e.pointerType === 'touch') {
+      const touches = touchPointsRef.current;
+      const screen = toScreen(e);
+      touches.set(e.pointerId, screen);
+      $pointer.set({ x: e.clientX, y: e.clientY });
+      setTouchActive(true);
+
+      if (touches.size === 2) {
+        // A second finger turns the press into a pinch, or a split if it lifts again quickly.
+        finishInteraction();
+        const [first, second] = [...touches.values()];
+        gestureRef.current = {
+          startedAt: Date.now(),
+          startDistance: Math.hypot(second.x - first.x, second.y - first.y),
+          startMid: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+          origin: view,
+          moved: false
+        };
+        return;
+      }
+      if (touches.size > 2) return;
+
+      clearLongPress();
+      pressStartRef.current = screen;
+      longPressRef.current = window.setTimeout(() => {
+        longPressRef.current = null;
+        touchSplit(screen);
+      }, LONG_PRESS_DELAY);
+    }
+
+    if (e.button === 1 || spaceHeld) {
+      e.preventDefault();
+      setPanning({ start: toScreen(e), origin: view });
+      return;
+    }
+
+    const { x, y } = toWorld(e);
+
+    if (e.altKey) {
+      setLassoStart({ x, y });
+      if (!e.shiftKey) setSelectedIds([]);
+      return;
+    }
+
+    const selectedIndex = selectedIds.length === 1
+      ? rectangles.findIndex(rectangle => rectangle.id === selectedIds[0])
+      : -1;
+    const handle = selectedIndex !== -1
+      ? hitHandle(rectangles[selectedIndex], x, y, HANDLE_SIZE / view.scale)
+      : null;
+
+    if (handle) {
+      const { x: startX, y: startY, width, height } = rectangles[selectedIndex];
+      history.begin();
+      setResizing({ index: selectedIndex, handle, start: { x: startX, y: startY, width, height } });
+      return;
+    }
+
+    const clickedRect = index.hitTest(x, y);
 
     if (clickedRect !== -1) {
-      setDraggedRect(clickedRect);
-      setDragOffset({
-        x: x - rectangles[clickedRect].x,
-        y: y - rectangles[clickedRect].y
+      const id = rectangles[clickedRect].id;
+      const isSelected = selectedIds.includes(id);
+
+      if (e.shiftKey && isSelected) {
+        setSelectedIds(selectedIds.filter(selected => selected !== id));
+        return;
+      }
+
+      const ids = e.shiftKey ? [...selectedIds, id] : isSelected ? selectedIds : [id];
+      const moving = rectangles.filter(rectangle => ids.includes(rectangle.id));
+      const origins: Record<number, MousePosition> = {};
+      moving.forEach(rectangle => {
+        origins[rectangle.id] = { x: rectangle.x, y: rectangle.y };
       });
+
+      history.begin();
+      setSelectedIds(ids);
+      setDragging({ start: { x, y }, startOnScreen: toScreen(e), moved: false, origins, bounds: unionBounds(moving) });
     } else {
-      divideCrosshairRectangles(x, y);
+      const point = snap({ x, y });
+
+      if (!splitTargets) setSelectedIds([]);
+      if (e.pointerType !== 'touch') divideCrosshairRectangles(point.x, point.y, splitTargets);
       
       setIsDrawing(true);
-      setStartPos({ x, y });
+      setStartPos(point);
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent): void => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    if (draggedRect !== null) {
-      setRectangles(prev => prev.map((rectangle, index) => 
-        index === draggedRect 
-          ? { ...rectangle, x: x - dragOffset.x, y: y - dragOffset.y }
-          : rectangle
-      ));
+  const handlePointerMove = (e: React.PointerEvent): void => {
+    if (e.pointerType === 'touch') {
+      const touches = touchPointsRef.current;
+      const previous = touches.get(e.pointerId);
+      if (!previous) return;
+
+      const screen = toScreen(e);
+      touches.set(e.pointerId, screen);
+
+      const gesture = gestureRef.current;
+      if (gesture && touches.size === 2) {
+        const [first, second] = [...touches.values()];
+        const distance = Math.hypot(second.x - first.x, second.y - first.y);
+        const mid = { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+
+        if (!gesture.moved) {
+          const drift = Math.hypot(mid.x - gesture.startMid.x, mid.y - gesture.startMid.y);
+          if (drift < DRAG_THRESHOLD && Math.abs(distance - gesture.startDistance) < DRAG_THRESHOLD) return;
+          gesture.moved = true;
+        }
+
+        const panned = {
+          ...gesture.origin,
+          x: gesture.origin.x + mid.x - gesture.startMid.x,
+          y: gesture.origin.y + mid.y - gesture.startMid.y
+        };
+        setView(zoomAt(panned, mid, distance / gesture.startDistance));
+        return;
+      }
+      if (touches.size > 1) return;
+
+      const pressStart = pressStartRef.current;
+      if (Math.hypot(screen.x - pressStart.x, screen.y - pressStart.y) >= DRAG_THRESHOLD) clearLongPress();
+    }
+
+    if (panning !== null) {
+      const screen = toScreen(e);
+      setView({
+        ...panning.origin,
+        x: panning.origin.x + screen.x - panning.start.x,
+        y: panning.origin.y + screen.y - panning.start.y
+      });
+      return;
+    }
+
+    const { x, y } = toWorld(e);
+
+    if (resizing !== null) {
+      const pointer = snap({ x, y });
+      const bounds = resizeBounds(resizing.start, resizing.handle, pointer.x, pointer.y, e.shiftKey, minSize);
+      history.preview(updateRectangles(prev => prev.map((rectangle, index) =>
+        index === resizing.index ? { ...rectangle, ...bounds } : rectangle
+      )));
+    }
+
+    if (dragging !== null) {
+      const screen = toScreen(e);
+      if (!dragging.moved) {
+        const distance = Math.hypot(screen.x - dragging.startOnScreen.x, screen.y - dragging.startOnScreen.y);
+        if (distance < DRAG_THRESHOLD) return;
+        setDragging({ ...dragging, moved: true });
+      }
+
+      const { bounds } = dragging;
+      let dx = x - dragging.start.x;
+      let dy = y - dragging.start.y;
+
+      if (snapEnabled) {
+        dx = snapValue(bounds.x + dx, gridSize) - bounds.x;
+        dy = snapValue(bounds.y + dy, gridSize) - bounds.y;
+      }
+
+      // Alignment with a neighbour wins over the grid, the way design tools behave.
+      const alignment = alignBounds(
+        { ...bounds, x: bounds.x + dx, y: bounds.y + dy },
+        index.queryBounds(visibleBounds)
+          .map(position => rectangles[position])
+          .filter(rectangle => !dragging.origins[rectangle.id]),
+        GUIDE_THRESHOLD / view.scale
+      );
+      dx += alignment.dx;
+      dy += alignment.dy;
+      setGuides(alignment.guides);
+
+      history.preview(updateRectangles(prev => prev.map(rectangle => {
+        const origin = dragging.origins[rectangle.id];
+        return origin ? { ...rectangle, x: origin.x + dx, y: origin.y + dy } : rectangle;
+      })));
     }
   };
 
-  const handleMouseUp = (e: React.MouseEvent): void => {
-    if (isDrawing) {
-      const rect = e.currentTarget.getBoundingClientRect();
-      const endX = e.clientX - rect.left;
-      const endY = e.clientY - rect.top;
-
-      const x = Math.min(startPos.x, endX);
-      const y = Math.min(startPos.y, endY);
-      const width = Math.abs(endX - startPos.x);
-      const height = Math.abs(endY - startPos.y);
-
-      if (width > 5 && height > 5) {
-        const newRect: Rectangle = {
-          id: Date.now(),
-          x,
-          y,
-          width,
-          height,
-          color: colors[rectangles.length % colors.length]
-        };
+  const handleDoubleClick = (e: React.MouseEvent): void => {
+    const { x, y } = toWorld(e);
+    const tolerance = EDGE_TOLERANCE / view.scale;
+
+    const nearPoint = index
+      .queryBounds({ x: x - tolerance, y: y - tolerance, width: tolerance * 2, height: tolerance * 2 })
+      .map(position => rectangles[position]);
+
+    // Only an edge shared by two siblings merges; a double-click deep inside one piece does nothing.
+    const sibling = nearPoint.find(rectangle =>
+      rectangle.origin && nearPoint.some(other =>
+        other.id !== rectangle.id && other.origin?.parentId === rectangle.origin!.parentId
+      )
+    );
 
-        setRectangles(prev => [...prev, newRect]);
+    if (sibling) {
+      const merged = mergeRectangles(layout, sibling.id);
+      if (merged) {
+        history.set(merged);
+        setSelectedIds([]);
       }
+    }
+  };
 
-      setIsDrawing(false);
+  const handlePointerCancel = (e: React.PointerEvent): void => {
+    touchPointsRef.current.delete(e.pointerId);
+    if (touchPointsRef.current.size === 0) {
+      gestureRef.current = null;
+      setTouchActive(false);
     }
+    finishInteraction();
+  };
 
-    if (draggedRect !== null) {
-      setDraggedRect(null);
-      setDragOffset({ x: 0, y: 0 });
+  const handlePointerUp = (e: React.PointerEvent): void => {
+    clearLongPress();
+
+    if (e.pointerType === 'touch') {
+      const touches = touchPointsRef.current;
+      if (!touches.delete(e.pointerId)) return;
+      if (touches.size === 0) setTouchActive(false);
+
+      const gesture = gestureRef.current;
+      if (gesture) {
+        // The first finger to lift ends the gesture; the other one must not start anything.
+        gestureRef.current = null;
+        if (!gesture.moved && Date.now() - gesture.startedAt < TWO_FINGER_TAP_DURATION) {
+          touchSplit(gesture.startMid);
+        }
+        return;
+      }
+      if (touches.size > 0) return;
+    }
+
+    if (panning !== null) {
+      setPanning(null);
+      return;
+    }
+
+    if (lassoStart !== null) {
+      const box = boxFrom(lassoStart, toWorld(e));
+      const hits = index.queryBounds(box).map(position => rectangles[position].id);
+
+      setSelectedIds(prev => e.shiftKey ? [...prev, ...hits.filter(id => !prev.includes(id))] : hits);
+      setLassoStart(null);
+    }
+
+    if (isDrawing) {
+      finishDrawing(snap(toWorld(e)));
+    }
+
+    if (resizing !== null) {
+      history.commit();
+      setResizing(null);
+    }
+
+    if (dragging !== null) {
+      history.commit();
+      setDragging(null);
+      setGuides([]);
+      if (dragging.moved) {
+        const count = Object.keys(dragging.origins).length;
+        setAnnouncement(`Moved ${count} ${count === 1 ? 'rectangle' : 'rectangles'}.`);
+      }
+
+      // With the knife on the rectangle under the cursor, a click (not a drag) cuts it, unless a
+      // second click follows and makes it a double-click.
+      if (!dragging.moved && splitMode === 'under-cursor' && !e.shiftKey) {
+        if (clickSplitRef.current !== null) {
+          clearClickSplit();
+        } else {
+          const point = snap(toWorld(e));
+          clickSplitRef.current = window.setTimeout(() => {
+            clickSplitRef.current = null;
+            divideCrosshairRectangles(point.x, point.y, splitTargets);
+          }, DOUBLE_CLICK_DELAY);
+        }
+      }
     }
   };
 
-  const previewRect = isDrawing ? {
-    x: Math.min(startPos.x, mousePos.x),
-    y: Math.min(startPos.y, mousePos.y),
-    width: Math.abs(mousePos.x - startPos.x),
-    height: Math.abs(mousePos.y - startPos.y)
-  } : null;
+  const selectedRect = selectedIds.length === 1
+    ? rectangles.find(rectangle => rectangle.id === selectedIds[0])
+    : undefined;
+
+  // The list is topmost first and capped, so huge layouts don't pay for rows nobody scrolls to.
+  const layerRows = rectangles
+    .slice(-LAYER_LIST_LIMIT)
+    .map((rectangle, offset) => ({ rectangle, index: Math.max(0, rectangles.length - LAYER_LIST_LIMIT) + offset }))
+    .reverse();
+
+  const isIdle = !dragging && !resizing && !isDrawing && !lassoStart && !panning;
+
+  const overlayCursor = panning ? 'grabbing' : spaceHeld ? 'grab' : resizing ? HANDLE_CURSORS[resizing.handle] : undefined;
 
   return (
-    <div className="relative w-full h-screen bg-gray-100 overflow-hidden">
-      <div 
-        className="absolute top-0 w-0.5 h-full bg-black pointer-events-none z-20"
-        style={{ left: `${mousePos.x}px` }}
-      />
-      
-      <div 
-        className="absolute left-0 h-0.5 w-full bg-black pointer-events-none z-20"
-        style={{ top: `${mousePos.y}px` }}
-      />
+    <div
+      className="relative w-full h-screen bg-gray-100 overflow-hidden"
+      style={snapEnabled ? {
+        backgroundImage: 'linear-gradient(to right, #e5e7eb 1px, transparent 1px), linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)',
+        backgroundSize: `${gridSize * view.scale}px ${gridSize * view.scale}px`,
+        backgroundPosition: `${view.x}px ${view.y}px`
+      } : undefined}
+    >
+      <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 z-30">
+        {fileError && (
+          <div
+            role="alert"
+            className="flex items-center gap-3 px-4 py-2 rounded-md bg-red-50 border border-red-300 text-sm text-red-700 shadow"
+          >
+            {fileError}
+            <button type="button" className="font-semibold" onClick={() => setFileError(null)}>
+              Dismiss
+            </button>
+          </div>
+        )}
+        {loadError && (
+          <div
+            role="alert"
+            className="flex items-center gap-3 px-4 py-2 rounded-md bg-red-50 border border-red-300 text-sm text-red-700 shadow"
+          >
+            {loadError}
+            <button type="button" className="font-semibold" onClick={() => setLoadError(null)}>
+              Dismiss
+            </button>
+          </div>
+        )}
+        {autosaveError && (
+          <div
+            role="alert"
+            className="flex items-center gap-3 px-4 py-2 rounded-md bg-red-50 border border-red-300 text-sm text-red-700 shadow"
+          >
+            {autosaveError}
+            <button type="button" className="font-semibold" onClick={() => setAutosaveError(null)}>
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="absolute top-3 left-3 right-3 flex flex-wrap gap-2 z-30 pointer-events-none [&>*]:pointer-events-auto">
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={history.undo}
+          disabled={!history.canUndo}
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={history.redo}
+          disabled={!history.canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          Redo
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={mergeSelected}
+          disabled={!canMergeSelected}
+          title="Merge the selected piece with its siblings (M)"
+        >
+          Merge
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={deleteSelected}
+          disabled={selectedIds.length === 0}
+          title="Delete the selection (Delete)"
+        >
+          Delete
+        </button>
+        <div className="flex items-center gap-1 px-2 rounded-md bg-white border border-gray-300 shadow-sm">
+          {colors.map(color => (
+            <button
+              key={color}
+              type="button"
+              className="w-5 h-5 rounded-full border border-gray-300 disabled:opacity-40"
+              style={{ backgroundColor: color }}
+              onClick={() => recolorSelected(color)}
+              disabled={selectedIds.length === 0}
+              title={`Recolor the selection ${color}`}
+            />
+          ))}
+        </div>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          <input
+            type="checkbox"
+            checked={splitSelectedOnly}
+            onChange={e => setSplitSelectedOnly(e.target.checked)}
+          />
+          Split selected only
+        </label>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          Mode
+          <select
+            className="bg-transparent"
+            value={splitMode}
+            onChange={e => setSplitMode(e.target.value as SplitMode)}
+          >
+            {SPLIT_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          Cut
+          <select
+            className="bg-transparent"
+            value={splitParts ?? ''}
+            onChange={e => setSplitParts(e.target.value === '' ? null : Number(e.target.value))}
+          >
+            <option value="">at the cursor</option>
+            {SPLIT_PARTS.map(parts => (
+              <option key={parts} value={parts}>into {parts} equal parts</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          Min size
+          <input
+            type="number"
+            className="w-14 px-1 border border-gray-300 rounded"
+            min={1}
+            value={minSize}
+            onChange={e => setMinSize(Math.max(1, Number(e.target.value) || MIN_SIZE))}
+          />
+        </label>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          Split
+          <select
+            className="bg-transparent"
+            value={splitScope}
+            onChange={e => setSplitScope(e.target.value as SplitScope)}
+          >
+            <option value="all">every stacked rectangle</option>
+            <option value="topmost">only the topmost</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          <input
+            type="checkbox"
+            checked={snapEnabled}
+            onChange={e => setSnapEnabled(e.target.checked)}
+          />
+          Snap to grid
+          <input
+            type="number"
+            className="w-14 ml-1 px-1 border border-gray-300 rounded"
+            min={5}
+            step={5}
+            value={gridSize}
+            onChange={e => setGridSize(Math.max(5, Number(e.target.value) || DEFAULT_GRID_SIZE))}
+            aria-label="Grid size"
+          />
+        </label>
+        <div className="flex rounded-md bg-white border border-gray-300 text-sm shadow-sm">
+          <button type="button" className="px-2 py-1" onClick={() => zoomAtCenter(1 / ZOOM_STEP)} title="Zoom out (Ctrl+-)">
+            −
+          </button>
+          <button
+            type="button"
+            className="px-2 py-1 w-14 border-x border-gray-300 tabular-nums"
+            onClick={() => setView(IDENTITY_VIEWPORT)}
+            title="Reset zoom (Ctrl+0)"
+          >
+            {Math.round(view.scale * 100)}%
+          </button>
+          <button type="button" className="px-2 py-1" onClick={() => zoomAtCenter(ZOOM_STEP)} title="Zoom in (Ctrl+=)">
+            +
+          </button>
+          <button type="button" className="px-2 py-1 border-l border-gray-300" onClick={zoomToFit} title="Zoom to fit every rectangle">
+            Fit
+          </button>
+        </div>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={() => downloadFile(serializeLayout(layout), 'layout.json', 'application/json')}
+        >
+          Export JSON
+        </button>
+        <button type="button" className={toolbarButton} onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={importLayout}
+        />
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={() => downloadFile(exportSvg(rectangles), 'layout.svg', 'image/svg+xml')}
+          disabled={rectangles.length === 0}
+        >
+          Export SVG
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={downloadPng}
+          disabled={rectangles.length === 0}
+        >
+          Export PNG
+        </button>
+      </div>
+
+      <div className="absolute bottom-3 right-3 w-56 max-h-80 flex flex-col rounded-md bg-white border border-gray-300 shadow-sm text-sm z-30">
+        <div className="flex items-center gap-1 px-2 py-1.5 border-b border-gray-200">
+          <span className="font-semibold mr-auto">Layers</span>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded border border-gray-300 disabled:opacity-40"
+            onClick={raiseSelected}
+            disabled={selectedIds.length === 0}
+            title="Bring to front (Ctrl+])"
+          >
+            Front
+          </button>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded border border-gray-300 disabled:opacity-40"
+            onClick={lowerSelected}
+            disabled={selectedIds.length === 0}
+            title="Send to back (Ctrl+[)"
+          >
+            Back
+          </button>
+        </div>
+        <ul className="overflow-y-auto">
+          {layerRows.map(({ rectangle, index }) => (
+            <li key={rectangle.id}>
+              <button
+                type="button"
+                className={`w-full flex items-center gap-2 px-2 py-1 text-left ${
+                  selectedIds.includes(rectangle.id) ? 'bg-gray-200' : 'hover:bg-gray-50'
+                }`}
+                onClick={e => selectLayer(rectangle.id, e.shiftKey)}
+              >
+                <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: rectangle.color }} />
+                Rectangle {index + 1}
+                <span className="ml-auto text-xs text-gray-500">
+                  {Math.round(rectangle.width)}×{Math.round(rectangle.height)}
+                </span>
+              </button>
+            </li>
+          ))}
+          {rectangles.length > LAYER_LIST_LIMIT && (
+            <li className="px-2 py-1 text-xs text-gray-500">
+              {rectangles.length - LAYER_LIST_LIMIT} more below
+            </li>
+          )}
+        </ul>
+      </div>
+
+      <p id="canvas-help" className="sr-only">
+        {rectangles.length} rectangles. Arrow keys move the crosshair, Shift moves it one pixel at a time.
+        Enter splits at the crosshair and D starts or finishes drawing a rectangle.
+        Tab moves through the rectangles; arrow keys move the focused rectangle and Enter or Space selects it.
+      </p>
+
+      <div className="sr-only" aria-live="polite" role="status">
+        {announcement}
+      </div>
 
       <div 
-        className="absolute inset-0 z-10"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
+        ref={overlayRef}
+        role="application"
+        aria-label="Rectangle canvas"
+        aria-describedby="canvas-help"
+        tabIndex={0}
+        className="absolute inset-0 z-10 touch-none outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-blue-500"
+        onKeyDown={handleCanvasKeyDown}
+        onFocus={e => {
+          if (e.target === e.currentTarget) setFocusedId(null);
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onDoubleClick={handleDoubleClick}
+        style={{ cursor: overlayCursor }}
       >
-        {rectangles.map((rectangle, index) => (
-          <div
-            key={rectangle.id}
-            className="absolute border-2 border-opacity-80 cursor-move rounded-lg"
-            style={{
-              left: `${rectangle.x}px`,
-              top: `${rectangle.y}px`,
-              width: `${rectangle.width}px`,
-              height: `${rectangle.height}px`,
-              backgroundColor: rectangle.color,
-              borderColor: rectangle.color,
-              opacity: draggedRect === index ? 0.7 : 0.6
-            }}
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          <ShapeLayer
+            rectangles={rectangles}
+            visible={visible}
+            selectedIds={selectedIds}
+            focusedId={focusedId}
+            dragging={dragging !== null}
+            movable={!overlayCursor}
+            onFocusShape={handleFocusShape}
           />
-        ))}
 
-        {previewRect && previewRect.width > 0 && previewRect.height > 0 && (
-          <div
-            className="absolute border-2 border-dashed border-gray-600 rounded-lg"
-            style={{
-              left: `${previewRect.x}px`,
-              top: `${previewRect.y}px`,
-              width: `${previewRect.width}px`,
-              height: `${previewRect.height}px`,
-              backgroundColor: colors[rectangles.length % colors.length],
-              opacity: 0.3
-            }}
-          />
-        )}
+          {selectedRect && RESIZE_HANDLES.map(handle => {
+            const zone = handleBounds(selectedRect, handle, HANDLE_SIZE / view.scale);
+            const isCorner = handle.length === 2;
+
+            return (
+              <div
+                key={handle}
+                className={`absolute ${isCorner ? 'bg-white border border-gray-800 rounded-sm' : ''}`}
+                style={{
+                  left: `${zone.x}px`,
+                  top: `${zone.y}px`,
+                  width: `${zone.width}px`,
+                  height: `${zone.height}px`,
+                  cursor: HANDLE_CURSORS[handle]
+                }}
+              />
+            );
+          })}
+
+          {guides.map(guide => (
+            <div
+              key={`${guide.orientation}-${guide.position}`}
+              className="absolute bg-fuchsia-500 pointer-events-none"
+              style={guide.orientation === 'vertical' ? {
+                left: `${guide.position}px`,
+                top: `${guide.start}px`,
+                width: `${1 / view.scale}px`,
+                height: `${guide.end - guide.start}px`
+              } : {
+                left: `${guide.start}px`,
+                top: `${guide.position}px`,
+                width: `${guide.end - guide.start}px`,
+                height: `${1 / view.scale}px`
+              }}
+            />
+          ))}
+        </div>
       </div>
+
+      <CrosshairLayer
+        view={view}
+        snapGrid={snapEnabled ? gridSize : null}
+        index={index}
+        splitOptions={splitOptions(splitTargets)}
+        idle={isIdle}
+        drawingFrom={isDrawing ? startPos : null}
+        lassoFrom={lassoStart}
+        previewColor={colors[rectangles.length % colors.length]}
+        touchActive={touchActive}
+      />
+
+      {benchmark && <PerformancePanel layout={layout} visibleCount={visible.length} />}
     </div>
   );
 }
\ No newline at end of file
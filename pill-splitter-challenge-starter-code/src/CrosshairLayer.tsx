@@ -0,0 +1,141 @@
+import { useStore } from '@nanostores/react';
+import { $pointer, $pointerType, type PointerPosition } from './pointerStore';
+import { boxFrom } from './rectangles';
+import { snapPoint } from './snapping';
+import type { SpatialIndex } from './spatialIndex';
+import { planSplit, type SplitOptions } from './splitting';
+import { screenToWorld, worldToScreen, type Viewport } from './viewport';
+
+interface CrosshairLayerProps {
+  view: Viewport;
+  // Grid size while snapping is on, null otherwise.
+  snapGrid: number | null;
+  index: SpatialIndex;
+  splitOptions: SplitOptions;
+  idle: boolean;
+  drawingFrom: PointerPosition | null;
+  lassoFrom: PointerPosition | null;
+  previewColor: string;
+  touchActive: boolean;
+}
+
+// Everything that follows the pointer: the crosshair, the cut preview, the drawing preview and
+// the lasso. It subscribes to the pointer store itself so the shapes never re-render on a move.
+export default function CrosshairLayer({
+  view,
+  snapGrid,
+  index,
+  splitOptions,
+  idle,
+  drawingFrom,
+  lassoFrom,
+  previewColor,
+  touchActive
+}: CrosshairLayerProps): React.ReactElement {
+  const mousePos = useStore($pointer);
+  const pointerType = useStore($pointerType);
+
+  const pointer = screenToWorld(view, mousePos);
+  const lassoBox = lassoFrom ? boxFrom(lassoFrom, pointer) : null;
+
+  // Where a click would split or start drawing, which is what the crosshair shows.
+  const cursor = snapGrid ? snapPoint(pointer, snapGrid) : pointer;
+  const cursorOnScreen = worldToScreen(view, cursor);
+  const showsCrosshair = pointerType !== 'touch' || touchActive;
+
+  // Outside the knife mode a press on a rectangle moves it, so only empty space previews a cut.
+  const wouldSplit = splitOptions.mode === 'under-cursor' || index.hitTest(pointer.x, pointer.y) === -1;
+  const splitPreview = idle && wouldSplit ? planSplit(index, cursor, splitOptions) : [];
+  const showsHorizontalLine = splitOptions.mode !== 'vertical';
+  const showsVerticalLine = splitOptions.mode !== 'horizontal';
+
+  const previewRect = drawingFrom ? boxFrom(drawingFrom, cursor) : null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-20">
+      <div
+        className="absolute top-0 left-0 origin-top-left"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+      >
+        {splitPreview.map(({ rectangle, xs, ys }) => (
+          <div
+            key={`split-${rectangle.id}`}
+            className="absolute border-dashed border-gray-900 rounded-lg"
+            style={{
+              left: `${rectangle.x}px`,
+              top: `${rectangle.y}px`,
+              width: `${rectangle.width}px`,
+              height: `${rectangle.height}px`,
+              borderWidth: `${1 / view.scale}px`
+            }}
+          >
+            {xs.map(x => (
+              <div
+                key={`x-${x}`}
+                className="absolute top-0 h-full bg-red-600"
+                style={{ left: `${x - rectangle.x}px`, width: `${1.5 / view.scale}px` }}
+              />
+            ))}
+            {ys.map(y => (
+              <div
+                key={`y-${y}`}
+                className="absolute left-0 w-full bg-red-600"
+                style={{ top: `${y - rectangle.y}px`, height: `${1.5 / view.scale}px` }}
+              />
+            ))}
+          </div>
+        ))}
+
+        {lassoBox && (
+          <div
+            className="absolute border border-dashed border-blue-500 bg-blue-200"
+            style={{
+              left: `${lassoBox.x}px`,
+              top: `${lassoBox.y}px`,
+              width: `${lassoBox.width}px`,
+              height: `${lassoBox.height}px`,
+              opacity: 0.4
+            }}
+          />
+        )}
+
+        {previewRect && previewRect.width > 0 && previewRect.height > 0 && (
+          <div
+            className="absolute border-2 border-dashed border-gray-600 rounded-lg"
+            style={{
+              left: `${previewRect.x}px`,
+              top: `${previewRect.y}px`,
+              width: `${previewRect.width}px`,
+              height: `${previewRect.height}px`,
+              backgroundColor: previewColor,
+              opacity: 0.3
+            }}
+          />
+        )}
+      </div>
+
+      {showsCrosshair && (
+        <>
+          <div
+            className="absolute top-0 w-0.5 h-full bg-black"
+            style={{ left: `${cursorOnScreen.x}px`, opacity: showsVerticalLine ? 1 : 0.2 }}
+          />
+
+          <div
+            className="absolute left-0 h-0.5 w-full bg-black"
+            style={{ top: `${cursorOnScreen.y}px`, opacity: showsHorizontalLine ? 1 : 0.2 }}
+          />
+
+          {snapGrid && (
+            <div
+              className="absolute px-1.5 py-0.5 rounded bg-black text-white text-xs font-mono"
+              style={{ left: `${cursorOnScreen.x + 6}px`, top: `${cursorOnScreen.y + 6}px` }}
+            >
+              {cursor.x}, {cursor.y}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
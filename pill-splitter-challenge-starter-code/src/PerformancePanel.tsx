@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { measureQueries, type QueryTimings } from './benchmark';
+import type { Layout } from './rectangles';
+
+interface PerformancePanelProps {
+  layout: Layout;
+  visibleCount: number;
+}
+
+interface FrameStats {
+  fps: number;
+  worstFrameMs: number;
+}
+
+// Frame rate and query timings for the `?bench=` layout, sampled once a second.
+export default function PerformancePanel({ layout, visibleCount }: PerformancePanelProps): React.ReactElement {
+  const [frames, setFrames] = useState<FrameStats>({ fps: 0, worstFrameMs: 0 });
+  const [timings, setTimings] = useState<QueryTimings | null>(null);
+
+  useEffect(() => {
+    let frameId = 0;
+    let count = 0;
+    let worst = 0;
+    let last = performance.now();
+    let windowStart = last;
+
+    const tick = (now: number): void => {
+      count++;
+      worst = Math.max(worst, now - last);
+      last = now;
+
+      if (now - windowStart >= 1000) {
+        setFrames({ fps: Math.round((count * 1000) / (now - windowStart)), worstFrameMs: worst });
+        count = 0;
+        worst = 0;
+        windowStart = now;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+    };
+  }, []);
+
+  return (
+    <div className="absolute bottom-3 left-3 w-64 px-3 py-2 rounded-md bg-white border border-gray-300 shadow-sm text-xs font-mono z-30">
+      <div>{layout.rectangles.length} rectangles, {visibleCount} rendered</div>
+      <div>{frames.fps} fps, worst frame {frames.worstFrameMs.toFixed(1)} ms</div>
+      {timings && (
+        <div className="mt-1 text-gray-600">
+          <div>index build: {timings.indexBuildMs.toFixed(2)} ms</div>
+          <div>{timings.samples} hit tests, linear: {timings.linearHitTestMs.toFixed(2)} ms</div>
+          <div>{timings.samples} hit tests, indexed: {timings.indexedHitTestMs.toFixed(2)} ms</div>
+          <div>{timings.samples} split plans, indexed: {timings.indexedSplitPlanMs.toFixed(2)} ms</div>
+          <div>drag frame, move and reindex: {timings.dragFrameMs.toFixed(2)} ms</div>
+          <div>
+            {timings.autosaveError ?? `autosave, ${(timings.autosaveBytes / 1024).toFixed(0)} KB: ${timings.autosaveMs.toFixed(2)} ms`}
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        className="mt-1 px-2 py-0.5 rounded border border-gray-300 font-sans"
+        onClick={() => setTimings(measureQueries(layout))}
+      >
+        Measure queries
+      </button>
+    </div>
+  );
+}
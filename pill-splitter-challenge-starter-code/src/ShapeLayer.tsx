@@ -0,0 +1,108 @@
+import { memo, useEffect, useMemo, useRef } from 'react';
+import { describeRectangle, type Rectangle } from './rectangles';
+
+interface ShapeProps {
+  rectangle: Rectangle;
+  label: string;
+  selected: boolean;
+  lifted: boolean;
+  movable: boolean;
+  focused: boolean;
+  onFocusShape: (id: number) => void;
+}
+
+const Shape = memo(function Shape({
+  rectangle,
+  label,
+  selected,
+  lifted,
+  movable,
+  focused,
+  onFocusShape
+}: ShapeProps): React.ReactElement {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (focused && document.activeElement !== ref.current) ref.current?.focus({ preventScroll: true });
+  }, [focused]);
+
+  return (
+    <div
+      ref={ref}
+      role="button"
+      aria-roledescription="rectangle"
+      aria-label={label}
+      aria-pressed={selected}
+      tabIndex={0}
+      data-rectangle-id={rectangle.id}
+      onFocus={() => onFocusShape(rectangle.id)}
+      className={`absolute border-2 border-opacity-80 rounded-lg outline-none focus-visible:ring-4 focus-visible:ring-blue-500 ${
+        movable ? 'cursor-move' : ''
+      } ${selected ? 'ring-2 ring-offset-1 ring-gray-800' : ''}`}
+      style={{
+        left: `${rectangle.x}px`,
+        top: `${rectangle.y}px`,
+        width: `${rectangle.width}px`,
+        height: `${rectangle.height}px`,
+        backgroundColor: rectangle.color,
+        borderColor: rectangle.color,
+        opacity: lifted ? 0.7 : 0.6
+      }}
+    />
+  );
+});
+
+interface ShapeLayerProps {
+  rectangles: Rectangle[];
+  // Indexes of the rectangles inside the viewport, in paint order.
+  visible: number[];
+  selectedIds: number[];
+  focusedId: number | null;
+  dragging: boolean;
+  movable: boolean;
+  onFocusShape: (id: number) => void;
+}
+
+// Memoized per shape, so a drag only re-renders the rectangles that actually moved.
+function ShapeLayer({
+  rectangles,
+  visible,
+  selectedIds,
+  focusedId,
+  dragging,
+  movable,
+  onFocusShape
+}: ShapeLayerProps): React.ReactElement {
+  const selected = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  // The focused rectangle stays mounted even when scrolled out of view, so focus is never lost.
+  const rendered = useMemo(() => {
+    const focusedIndex = focusedId === null ? -1 : rectangles.findIndex(rectangle => rectangle.id === focusedId);
+    if (focusedIndex === -1 || visible.includes(focusedIndex)) return visible;
+    return [...visible, focusedIndex].sort((a, b) => a - b);
+  }, [rectangles, visible, focusedId]);
+
+  return (
+    <>
+      {rendered.map(index => {
+        const rectangle = rectangles[index];
+        const isSelected = selected.has(rectangle.id);
+
+        return (
+          <Shape
+            key={rectangle.id}
+            rectangle={rectangle}
+            label={describeRectangle(rectangle, index)}
+            selected={isSelected}
+            lifted={dragging && isSelected}
+            movable={movable}
+            focused={rectangle.id === focusedId}
+            onFocusShape={onFocusShape}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+export default memo(ShapeLayer);
@@ -0,0 +1,134 @@
+import { BENCHMARK_STORAGE_KEY, saveAutosave } from './persistence';
+import { containsPoint, createId, updateRectangles, type Layout } from './rectangles';
+import { createSpatialIndex } from './spatialIndex';
+import { applySplit, planSplit } from './splitting';
+
+export interface QueryTimings {
+  count: number;
+  samples: number;
+  indexBuildMs: number;
+  linearHitTestMs: number;
+  indexedHitTestMs: number;
+  indexedSplitPlanMs: number;
+  // One drag frame outside React: moving a rectangle and rebuilding the index for the new layout.
+  dragFrameMs: number;
+  autosaveMs: number;
+  autosaveBytes: number;
+  autosaveError: string | null;
+}
+
+const BENCHMARK_COLORS = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57'];
+
+// `?bench=10000` opens the editor on a generated layout of that many rectangles.
+export const benchmarkCount = (): number | null => {
+  const value = Number(new URLSearchParams(window.location.search).get('bench'));
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+const BENCHMARK_TILES = 5;
+const BENCHMARK_CELL = 40;
+const DRAG_FRAMES = 20;
+
+// A few tiles split with crosshair clicks until about `count` pieces are on the canvas, so every piece
+// carries the split history a real layout does and autosaves and merges pay for it.
+export const createBenchmarkLayout = (count: number): Layout => {
+  const size = Math.ceil(Math.sqrt(count)) * BENCHMARK_CELL;
+  const tile = size / BENCHMARK_TILES;
+
+  let layout: Layout = {
+    rectangles: Array.from({ length: BENCHMARK_TILES * BENCHMARK_TILES }, (_, index) => ({
+      id: createId(),
+      x: (index % BENCHMARK_TILES) * tile,
+      y: Math.floor(index / BENCHMARK_TILES) * tile,
+      width: tile,
+      height: tile,
+      color: BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]
+    })),
+    ancestors: {}
+  };
+
+  while (layout.rectangles.length < count) {
+    // Pointer positions at the default zoom are whole pixels.
+    const point = { x: Math.round(Math.random() * size), y: Math.round(Math.random() * size) };
+    const cuts = planSplit(createSpatialIndex(layout.rectangles), point, { mode: 'both', scope: 'all', parts: null, minSize: 1 });
+    layout = applySplit(layout, cuts);
+  }
+
+  return layout;
+};
+
+const time = (run: () => void): number => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+// Compares a plain scan with the spatial index on the same random points, then times what every drag
+// frame and every committed change cost on top of rendering.
+export const measureQueries = (layout: Layout, samples = 1000): QueryTimings => {
+  const { rectangles } = layout;
+  const extent = rectangles.reduce(
+    (max, rectangle) => ({
+      x: Math.max(max.x, rectangle.x + rectangle.width),
+      y: Math.max(max.y, rectangle.y + rectangle.height)
+    }),
+    { x: 1, y: 1 }
+  );
+  const points = Array.from({ length: samples }, () => ({
+    x: Math.random() * extent.x,
+    y: Math.random() * extent.y
+  }));
+
+  let index = createSpatialIndex(rectangles);
+  const indexBuildMs = time(() => {
+    index = createSpatialIndex(rectangles);
+  });
+
+  const linearHitTestMs = time(() => {
+    points.forEach(point => {
+      for (let position = rectangles.length - 1; position >= 0; position--) {
+        if (containsPoint(rectangles[position], point.x, point.y)) break;
+      }
+    });
+  });
+
+  const indexedHitTestMs = time(() => {
+    points.forEach(point => index.hitTest(point.x, point.y));
+  });
+
+  const indexedSplitPlanMs = time(() => {
+    points.forEach(point => planSplit(index, point, { mode: 'both', scope: 'all', parts: null, minSize: 30 }));
+  });
+
+  const dragged = rectangles.length - 1;
+  const dragFrameMs = time(() => {
+    for (let frame = 1; frame <= DRAG_FRAMES; frame++) {
+      const moved = updateRectangles(prev => prev.map((rectangle, position) =>
+        position === dragged ? { ...rectangle, x: rectangle.x + frame } : rectangle
+      ))(layout);
+      createSpatialIndex(moved.rectangles);
+    }
+  }) / DRAG_FRAMES;
+
+  let autosaveError: string | null = null;
+  const autosaveMs = time(() => {
+    try {
+      saveAutosave(layout, BENCHMARK_STORAGE_KEY);
+    } catch (error) {
+      autosaveError = error instanceof Error ? error.message : String(error);
+    }
+  });
+
+  return {
+    count: rectangles.length,
+    samples,
+    indexBuildMs,
+    linearHitTestMs,
+    indexedHitTestMs,
+    indexedSplitPlanMs,
+    dragFrameMs,
+    autosaveMs,
+    autosaveBytes: localStorage.getItem(BENCHMARK_STORAGE_KEY)?.length ?? 0,
+    autosaveError
+  };
+};
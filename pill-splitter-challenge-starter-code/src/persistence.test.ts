@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutError, parseLayout, serializeLayout } from './persistence';
+import { mergeRectangles, type Rectangle } from './rectangles';
+
+const square: Rectangle = { id: 1, x: 0, y: 0, width: 200, height: 200, color: '#ff6b6b' };
+const leftHalf = { x: 0, y: 0, width: 100, height: 200 };
+
+// Version 1 kept each piece's parent inside the piece, with the parent's own origin nested again.
+const nestedLeft = { ...square, ...leftHalf, id: 2, origin: { parent: square, siblingIds: [2, 3], bounds: leftHalf } };
+
+const nestedVersion1 = {
+  version: 1,
+  rectangles: [
+    {
+      id: 4,
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      color: '#ff6b6b',
+      origin: {
+        parent: nestedLeft,
+        siblingIds: [4, 5],
+        bounds: { x: 0, y: 0, width: 100, height: 100 }
+      }
+    },
+    {
+      id: 5,
+      x: 0,
+      y: 100,
+      width: 100,
+      height: 100,
+      color: '#ff6b6b',
+      origin: {
+        parent: nestedLeft,
+        siblingIds: [4, 5],
+        bounds: { x: 0, y: 100, width: 100, height: 100 }
+      }
+    },
+    {
+      id: 3,
+      x: 100,
+      y: 0,
+      width: 100,
+      height: 200,
+      color: '#ff6b6b',
+      origin: { parent: square, siblingIds: [2, 3], bounds: { x: 100, y: 0, width: 100, height: 200 } }
+    }
+  ]
+};
+
+describe('parseLayout', () => {
+  it('flattens a nested version 1 file into one table of ancestors', () => {
+    const layout = parseLayout(JSON.stringify(nestedVersion1));
+
+    expect(Object.keys(layout.ancestors).map(Number).sort()).toEqual([1, 2]);
+    expect(layout.ancestors[2].origin).toEqual({ parentId: 1, siblingIds: [2, 3], bounds: leftHalf });
+    expect(layout.rectangles[0].origin?.parentId).toBe(2);
+
+    const merged = mergeRectangles(layout, 4)!;
+    expect(mergeRectangles(merged, 3)?.rectangles).toEqual([square]);
+  });
+
+  it('reads back what it writes', () => {
+    const layout = parseLayout(JSON.stringify(nestedVersion1));
+
+    expect(parseLayout(serializeLayout(layout))).toEqual(layout);
+  });
+
+  it('rejects a file it cannot read, saying where the problem is', () => {
+    const reject = (text: string) => expect(() => parseLayout(text)).toThrow(LayoutError);
+    const withRectangles = (rectangles: unknown) => JSON.stringify({ version: 2, rectangles, ancestors: [] });
+
+    reject('{');
+    reject('[]');
+    expect(() => parseLayout(JSON.stringify({ version: 3, rectangles: [], ancestors: [] })))
+      .toThrow('The layout uses schema version 3, but this editor reads version 2.');
+    expect(() => parseLayout(withRectangles([{ ...square, width: '200' }])))
+      .toThrow('rectangles[0].width must be a finite number.');
+    expect(() => parseLayout(withRectangles([square, square]))).toThrow('Ids in rectangles must be unique.');
+    expect(() => parseLayout(JSON.stringify({ version: 2, rectangles: [] }))).toThrow('ancestors must be an array.');
+  });
+});
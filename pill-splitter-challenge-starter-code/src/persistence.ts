@@ -0,0 +1,274 @@
+import { EMPTY_LAYOUT, reserveIds, unionBounds, type Ancestors, type Bounds, type Layout, type Rectangle } from './rectangles';
+
+export const SCHEMA_VERSION = 2;
+
+export const STORAGE_KEY = 'pill-splitter:layout';
+
+// An autosave this version cannot read is copied here before the next save replaces it.
+export const BACKUP_STORAGE_KEY = 'pill-splitter:unreadable-layout';
+
+// `?bench=` layouts autosave here: they pay what a real autosave costs without replacing the user's layout.
+export const BENCHMARK_STORAGE_KEY = 'pill-splitter:benchmark';
+
+// Matches the canvas styling: `rounded-lg` and the resting opacity. The border shares the fill
+// color, so a filled rounded box reproduces it exactly.
+const CORNER_RADIUS = 8;
+const SHAPE_OPACITY = 0.6;
+const EXPORT_PADDING = 16;
+
+interface LayoutFile {
+  version: number;
+  rectangles: Rectangle[];
+  // Each ancestor a remaining piece can be merged back into, once.
+  ancestors: Rectangle[];
+}
+
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new LayoutError(`${path} must be a finite number.`);
+  }
+  return value;
+};
+
+const parseBounds = (value: unknown, path: string): Bounds => {
+  if (!isRecord(value)) throw new LayoutError(`${path} must be an object.`);
+
+  const bounds = {
+    x: expectNumber(value.x, `${path}.x`),
+    y: expectNumber(value.y, `${path}.y`),
+    width: expectNumber(value.width, `${path}.width`),
+    height: expectNumber(value.height, `${path}.height`)
+  };
+  if (bounds.width <= 0 || bounds.height <= 0) {
+    throw new LayoutError(`${path} must have a positive width and height.`);
+  }
+  return bounds;
+};
+
+const parseRectangle = (value: unknown, path: string): Rectangle => {
+  if (!isRecord(value)) throw new LayoutError(`${path} must be an object.`);
+  if (typeof value.color !== 'string') throw new LayoutError(`${path}.color must be a string.`);
+
+  const rectangle: Rectangle = {
+    id: expectNumber(value.id, `${path}.id`),
+    ...parseBounds(value, path),
+    color: value.color
+  };
+
+  if (value.origin !== undefined) {
+    const origin = value.origin;
+    if (!isRecord(origin)) throw new LayoutError(`${path}.origin must be an object.`);
+    if (!Array.isArray(origin.siblingIds)) throw new LayoutError(`${path}.origin.siblingIds must be an array.`);
+
+    rectangle.origin = {
+      parentId: expectNumber(origin.parentId, `${path}.origin.parentId`),
+      siblingIds: origin.siblingIds.map((id, index) => expectNumber(id, `${path}.origin.siblingIds[${index}]`)),
+      bounds: parseBounds(origin.bounds, `${path}.origin.bounds`)
+    };
+  }
+
+  return rectangle;
+};
+
+const parseRectangles = (value: unknown, path: string): Rectangle[] => {
+  if (!Array.isArray(value)) throw new LayoutError(`${path} must be an array.`);
+
+  const rectangles = value.map((item, index) => parseRectangle(item, `${path}[${index}]`));
+  const ids = new Set(rectangles.map(rectangle => rectangle.id));
+  if (ids.size !== rectangles.length) throw new LayoutError(`Ids in ${path} must be unique.`);
+  return rectangles;
+};
+
+// Version 1 nested each piece's parent, origin and all, inside the piece. Every piece carried its
+// whole ancestry and siblings repeated it; version 2 lists each ancestor once and refers to it by id.
+const flattenOrigins = (value: unknown, ancestors: Map<unknown, unknown>): unknown => {
+  if (!isRecord(value) || !isRecord(value.origin)) return value;
+
+  const { parent, ...origin } = value.origin;
+  if (!isRecord(parent)) return value;
+
+  ancestors.set(parent.id, flattenOrigins(parent, ancestors));
+  return { ...value, origin: { ...origin, parentId: parent.id } };
+};
+
+const migrateVersion1 = (data: Record<string, unknown>): Record<string, unknown> => {
+  const ancestors = new Map<unknown, unknown>();
+  const rectangles = Array.isArray(data.rectangles)
+    ? data.rectangles.map(value => flattenOrigins(value, ancestors))
+    : data.rectangles;
+  return { ...data, version: 2, rectangles, ancestors: [...ancestors.values()] };
+};
+
+// Only the ancestors some remaining piece can still reach; deleted pieces leave theirs behind.
+const reachableAncestors = ({ rectangles, ancestors }: Layout): Rectangle[] => {
+  const reached = new Map<number, Rectangle>();
+  const pending = [...rectangles];
+
+  for (let rectangle = pending.pop(); rectangle; rectangle = pending.pop()) {
+    const parentId = rectangle.origin?.parentId;
+    const parent = parentId === undefined ? undefined : ancestors[parentId];
+    if (parent && !reached.has(parent.id)) {
+      reached.set(parent.id, parent);
+      pending.push(parent);
+    }
+  }
+
+  return [...reached.values()];
+};
+
+const layoutFile = (layout: Layout): LayoutFile => ({
+  version: SCHEMA_VERSION,
+  rectangles: layout.rectangles,
+  ancestors: reachableAncestors(layout)
+});
+
+// Exported files are indented for people to read; the autosave is compact to stay within quota.
+export const serializeLayout = (layout: Layout): string => JSON.stringify(layoutFile(layout), null, 2);
+
+export const parseLayout = (text: string): Layout => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LayoutError('The file is not valid JSON.');
+  }
+
+  if (!isRecord(data)) throw new LayoutError('The file does not contain a layout.');
+  const file = data.version === 1 ? migrateVersion1(data) : data;
+  if (file.version !== SCHEMA_VERSION) {
+    throw new LayoutError(
+      `The layout uses schema version ${String(file.version)}, but this editor reads version ${SCHEMA_VERSION}.`
+    );
+  }
+
+  const rectangles = parseRectangles(file.rectangles, 'rectangles');
+  const ancestors: Ancestors = {};
+  parseRectangles(file.ancestors, 'ancestors').forEach(ancestor => {
+    ancestors[ancestor.id] = ancestor;
+  });
+
+  const layout = { rectangles, ancestors };
+  reserveIds(layout);
+  return layout;
+};
+
+export interface LoadedLayout {
+  layout: Layout;
+  // Why the autosave could not be opened; the editor then starts empty.
+  error: string | null;
+}
+
+export const loadAutosave = (): LoadedLayout => {
+  let text: string | null;
+  try {
+    text = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return { layout: EMPTY_LAYOUT, error: 'Browser storage is disabled, so this layout will not be autosaved.' };
+  }
+  if (!text) return { layout: EMPTY_LAYOUT, error: null };
+
+  try {
+    return { layout: parseLayout(text), error: null };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    try {
+      localStorage.setItem(BACKUP_STORAGE_KEY, text);
+    } catch {
+      return { layout: EMPTY_LAYOUT, error: `The autosaved layout could not be opened: ${reason}` };
+    }
+    return {
+      layout: EMPTY_LAYOUT,
+      error: `The autosaved layout could not be opened: ${reason} A copy is kept in browser storage under “${BACKUP_STORAGE_KEY}”.`
+    };
+  }
+};
+
+export const saveAutosave = (layout: Layout, key = STORAGE_KEY): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(layoutFile(layout)));
+  } catch {
+    throw new LayoutError(
+      'The layout could not be autosaved because browser storage is full or disabled. Export it to keep your work.'
+    );
+  }
+};
+
+const exportFrame = (rectangles: Rectangle[]): Bounds => {
+  const bounds = rectangles.length > 0 ? unionBounds(rectangles) : { x: 0, y: 0, width: 0, height: 0 };
+
+  return {
+    x: bounds.x - EXPORT_PADDING,
+    y: bounds.y - EXPORT_PADDING,
+    width: bounds.width + EXPORT_PADDING * 2,
+    height: bounds.height + EXPORT_PADDING * 2
+  };
+};
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export const exportSvg = (rectangles: Rectangle[]): string => {
+  const frame = exportFrame(rectangles);
+
+  const shapes = rectangles.map(rectangle =>
+    `  <rect x="${rectangle.x}" y="${rectangle.y}" width="${rectangle.width}" height="${rectangle.height}" ` +
+    `rx="${CORNER_RADIUS}" fill="${escapeAttribute(rectangle.color)}" opacity="${SHAPE_OPACITY}" />`
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}" ` +
+      `viewBox="${frame.x} ${frame.y} ${frame.width} ${frame.height}">`,
+    ...shapes,
+    '</svg>'
+  ].join('\n');
+};
+
+export const exportPng = (rectangles: Rectangle[]): Promise<Blob> => {
+  const frame = exportFrame(rectangles);
+  const scale = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(frame.width * scale);
+  canvas.height = Math.ceil(frame.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new LayoutError('This browser cannot draw a PNG.'));
+
+  context.scale(scale, scale);
+  context.translate(-frame.x, -frame.y);
+  context.globalAlpha = SHAPE_OPACITY;
+
+  rectangles.forEach(rectangle => {
+    context.fillStyle = rectangle.color;
+    context.beginPath();
+    context.roundRect(rectangle.x, rectangle.y, rectangle.width, rectangle.height, CORNER_RADIUS);
+    context.fill();
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new LayoutError('The PNG could not be encoded.'));
+    }, 'image/png');
+  });
+};
+
+export const downloadFile = (contents: Blob | string, filename: string, type: string): void => {
+  const blob = typeof contents === 'string' ? new Blob([contents], { type }) : contents;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked on a later tick: revoking straight after click() cancels the download in some browsers.
+  window.setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,11 @@
+import { atom } from 'nanostores';
+
+export interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+// Kept outside React state so a pointer move re-renders the crosshair layer and nothing else.
+export const $pointer = atom<PointerPosition>({ x: 0, y: 0 });
+
+export const $pointerType = atom<string>('mouse');
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findMergeGroup, mergeRectangles, MIN_SIZE, updateRectangles, type Layout, type Rectangle } from './rectangles';
+import { createSpatialIndex } from './spatialIndex';
+import { applySplit, planSplit } from './splitting';
+
+const square: Rectangle = { id: 1, x: 0, y: 0, width: 200, height: 200, color: '#ff6b6b' };
+
+const split = (layout: Layout, x: number, y: number, targetIds?: number[]): Layout =>
+  applySplit(layout, planSplit(createSpatialIndex(layout.rectangles), { x, y }, {
+    mode: 'both',
+    scope: 'all',
+    parts: null,
+    minSize: MIN_SIZE,
+    targetIds
+  }));
+
+const quartered = split({ rectangles: [square], ancestors: {} }, 100, 100);
+const [first, second] = quartered.rectangles;
+
+describe('mergeRectangles', () => {
+  it('puts the split rectangle back and forgets it as an ancestor', () => {
+    expect(quartered.rectangles).toHaveLength(4);
+    expect(mergeRectangles(quartered, second.id)).toEqual({ rectangles: [square], ancestors: {} });
+  });
+
+  it('refuses while a piece is moved away, and merges once it is back', () => {
+    const moveFirst = (dx: number) => updateRectangles(rectangles =>
+      rectangles.map(rectangle => rectangle.id === first.id ? { ...rectangle, x: rectangle.x + dx } : rectangle));
+    const moved = moveFirst(40)(quartered);
+
+    expect(findMergeGroup(moved, second.id)).toBeNull();
+    expect(mergeRectangles(moved, first.id)).toBeNull();
+    expect(mergeRectangles(moveFirst(-40)(moved), second.id)?.rectangles).toEqual([square]);
+  });
+
+  it('refuses while a piece is resized', () => {
+    const resized = updateRectangles(rectangles =>
+      rectangles.map(rectangle => rectangle.id === first.id ? { ...rectangle, width: rectangle.width + 10 } : rectangle)
+    )(quartered);
+
+    expect(findMergeGroup(resized, second.id)).toBeNull();
+  });
+
+  it('undoes a re-split one level at a time', () => {
+    const resplit = split(quartered, 50, 50, [first.id]);
+    const piece = resplit.rectangles.find(rectangle => rectangle.origin?.parentId === first.id)!;
+
+    expect(resplit.rectangles).toHaveLength(7);
+    expect(findMergeGroup(resplit, second.id)).toBeNull();
+
+    const once = mergeRectangles(resplit, piece.id)!;
+    expect(once).toEqual(quartered);
+    expect(mergeRectangles(once, second.id)).toEqual({ rectangles: [square], ancestors: {} });
+  });
+});
@@ -0,0 +1,238 @@
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SplitOrigin {
+  parentId: number;
+  siblingIds: number[];
+  bounds: Bounds;
+}
+
+export interface Rectangle extends Bounds {
+  id: number;
+  color: string;
+  origin?: SplitOrigin;
+}
+
+// The rectangles splits have replaced, by id, so their pieces can be merged back. A snapshot keeps its
+// own `origin`, which points further up this table instead of nesting the whole ancestry.
+export type Ancestors = Record<number, Rectangle>;
+
+export interface Layout {
+  rectangles: Rectangle[];
+  ancestors: Ancestors;
+}
+
+export const EMPTY_LAYOUT: Layout = { rectangles: [], ancestors: {} };
+
+export type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+// The default smallest piece a split may produce; resizing is held to the same floor.
+export const MIN_SIZE = 30;
+
+export const HANDLE_SIZE = 10;
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+
+export const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize'
+};
+
+let lastId = 0;
+
+// Monotonic ids: two pieces created in the same millisecond must never collide.
+export const createId = (): number => {
+  lastId = Math.max(lastId + 1, Date.now());
+  return lastId;
+};
+
+// Keeps freshly created ids clear of ones that came from storage or an imported file.
+export const reserveIds = ({ rectangles, ancestors }: Layout): void => {
+  [...rectangles, ...Object.values(ancestors)].forEach(rectangle => {
+    lastId = Math.max(lastId, rectangle.id);
+  });
+};
+
+// Applies a change to the rectangles alone; the split history stays as it is.
+export const updateRectangles = (update: (rectangles: Rectangle[]) => Rectangle[]) =>
+  (layout: Layout): Layout => {
+    const rectangles = update(layout.rectangles);
+    return rectangles === layout.rectangles ? layout : { ...layout, rectangles };
+  };
+
+export const describeRectangle = (rectangle: Rectangle, index: number): string =>
+  `Rectangle ${index + 1} at ${Math.round(rectangle.x)}, ${Math.round(rectangle.y)}, ` +
+  `${Math.round(rectangle.width)} by ${Math.round(rectangle.height)} pixels`;
+
+export const boxFrom = (a: { x: number; y: number }, b: { x: number; y: number }): Bounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y)
+});
+
+export const unionBounds = (list: Bounds[]): Bounds => {
+  const left = Math.min(...list.map(bounds => bounds.x));
+  const top = Math.min(...list.map(bounds => bounds.y));
+  const right = Math.max(...list.map(bounds => bounds.x + bounds.width));
+  const bottom = Math.max(...list.map(bounds => bounds.y + bounds.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const intersects = (a: Bounds, b: Bounds): boolean =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+export const containsPoint = (bounds: Bounds, x: number, y: number): boolean =>
+  x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+
+export const bringToFront = (rectangles: Rectangle[], ids: number[]): Rectangle[] => [
+  ...rectangles.filter(rectangle => !ids.includes(rectangle.id)),
+  ...rectangles.filter(rectangle => ids.includes(rectangle.id))
+];
+
+export const sendToBack = (rectangles: Rectangle[], ids: number[]): Rectangle[] => [
+  ...rectangles.filter(rectangle => ids.includes(rectangle.id)),
+  ...rectangles.filter(rectangle => !ids.includes(rectangle.id))
+];
+
+const sameBounds = (a: Bounds, b: Bounds): boolean =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+export const splitRectangle = (rectangle: Rectangle, pieces: Bounds[]): Rectangle[] => {
+  const ids = pieces.map(() => createId());
+
+  return pieces.map((bounds, index) => ({
+    ...rectangle,
+    ...bounds,
+    id: ids[index],
+    origin: { parentId: rectangle.id, siblingIds: ids, bounds }
+  }));
+};
+
+// The siblings of `id`, or null when any of them is gone, moved or resized, or their parent is unknown.
+export const findMergeGroup = ({ rectangles, ancestors }: Layout, id: number): Rectangle[] | null => {
+  const piece = rectangles.find(rectangle => rectangle.id === id);
+  if (!piece?.origin || !ancestors[piece.origin.parentId]) return null;
+
+  const { parentId, siblingIds } = piece.origin;
+  const group: Rectangle[] = [];
+
+  for (const siblingId of siblingIds) {
+    const sibling = rectangles.find(rectangle => rectangle.id === siblingId);
+    if (!sibling?.origin || sibling.origin.parentId !== parentId) return null;
+    if (!sameBounds(sibling, sibling.origin.bounds)) return null;
+    group.push(sibling);
+  }
+
+  return group;
+};
+
+export const mergeRectangles = (layout: Layout, id: number): Layout | null => {
+  const group = findMergeGroup(layout, id);
+  if (!group) return null;
+
+  const parentId = group[0].origin!.parentId;
+  const groupIds = new Set(group.map(rectangle => rectangle.id));
+  const insertAt = layout.rectangles.findIndex(rectangle => groupIds.has(rectangle.id));
+  const rest = layout.rectangles.filter(rectangle => !groupIds.has(rectangle.id));
+  // The parent is back on the canvas, so it is no longer an ancestor.
+  const ancestors = { ...layout.ancestors };
+  delete ancestors[parentId];
+
+  return {
+    rectangles: [...rest.slice(0, insertAt), layout.ancestors[parentId], ...rest.slice(insertAt)],
+    ancestors
+  };
+};
+
+export const hitHandle = (bounds: Bounds, x: number, y: number, size = HANDLE_SIZE): ResizeHandle | null => {
+  const half = size / 2;
+  const withinX = x >= bounds.x - half && x <= bounds.x + bounds.width + half;
+  const withinY = y >= bounds.y - half && y <= bounds.y + bounds.height + half;
+  if (!withinX || !withinY) return null;
+
+  const vertical = Math.abs(y - bounds.y) <= half ? 'n' : Math.abs(y - (bounds.y + bounds.height)) <= half ? 's' : '';
+  const horizontal = Math.abs(x - bounds.x) <= half ? 'w' : Math.abs(x - (bounds.x + bounds.width)) <= half ? 'e' : '';
+
+  return (vertical + horizontal || null) as ResizeHandle | null;
+};
+
+// The hit zone of a handle, matching what `hitHandle` accepts.
+export const handleBounds = (bounds: Bounds, handle: ResizeHandle, size = HANDLE_SIZE): Bounds => {
+  const half = size / 2;
+  const isCorner = handle.length === 2;
+  const left = handle.includes('w') ? bounds.x - half : handle.includes('e') ? bounds.x + bounds.width - half : bounds.x + half;
+  const top = handle.includes('n') ? bounds.y - half : handle.includes('s') ? bounds.y + bounds.height - half : bounds.y + half;
+  const spansX = !isCorner && (handle === 'n' || handle === 's');
+  const spansY = !isCorner && (handle === 'e' || handle === 'w');
+
+  return {
+    x: left,
+    y: top,
+    width: spansX ? bounds.width - size : size,
+    height: spansY ? bounds.height - size : size
+  };
+};
+
+// Moves the edges named by `handle` to the pointer, anchoring the opposite ones.
+export const resizeBounds = (
+  start: Bounds,
+  handle: ResizeHandle,
+  pointerX: number,
+  pointerY: number,
+  keepAspect: boolean,
+  minSize = MIN_SIZE
+): Bounds => {
+  const right = start.x + start.width;
+  const bottom = start.y + start.height;
+  const north = handle.includes('n');
+  const south = handle.includes('s');
+  const west = handle.includes('w');
+  const east = handle.includes('e');
+
+  let width = east ? pointerX - start.x : west ? right - pointerX : start.width;
+  let height = south ? pointerY - start.y : north ? bottom - pointerY : start.height;
+  width = Math.max(width, minSize);
+  height = Math.max(height, minSize);
+
+  if (keepAspect) {
+    const ratio = start.width / start.height;
+
+    if (!north && !south) {
+      height = width / ratio;
+    } else if (!west && !east) {
+      width = height * ratio;
+    } else if (width / ratio > height) {
+      height = width / ratio;
+    } else {
+      width = height * ratio;
+    }
+
+    if (width < minSize) {
+      width = minSize;
+      height = width / ratio;
+    }
+    if (height < minSize) {
+      height = minSize;
+      width = height * ratio;
+    }
+  }
+
+  return {
+    x: west ? right - width : start.x,
+    y: north ? bottom - height : start.y,
+    width,
+    height
+  };
+};
@@ -0,0 +1,88 @@
+import type { Bounds } from './rectangles';
+
+export interface Guide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export interface Alignment {
+  dx: number;
+  dy: number;
+  guides: Guide[];
+}
+
+// How close, in pixels, an edge or center must come to another one before it snaps.
+export const GUIDE_THRESHOLD = 5;
+
+export const DEFAULT_GRID_SIZE = 20;
+
+export const snapValue = (value: number, gridSize: number): number =>
+  Math.round(value / gridSize) * gridSize;
+
+export const snapPoint = (point: { x: number; y: number }, gridSize: number): { x: number; y: number } => ({
+  x: snapValue(point.x, gridSize),
+  y: snapValue(point.y, gridSize)
+});
+
+const verticalLines = (bounds: Bounds): number[] =>
+  [bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width];
+
+const horizontalLines = (bounds: Bounds): number[] =>
+  [bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height];
+
+const closestDelta = (moving: number[], targets: number[], threshold: number): number => {
+  let best = Infinity;
+
+  moving.forEach(line => {
+    targets.forEach(target => {
+      const delta = target - line;
+      if (Math.abs(delta) <= threshold && Math.abs(delta) < Math.abs(best)) best = delta;
+    });
+  });
+
+  return best === Infinity ? 0 : best;
+};
+
+// Nudges `moving` onto the nearest edge or center of `others` and reports the guides that line up.
+export const alignBounds = (moving: Bounds, others: Bounds[], threshold = GUIDE_THRESHOLD): Alignment => {
+  const dx = closestDelta(verticalLines(moving), others.flatMap(verticalLines), threshold);
+  const dy = closestDelta(horizontalLines(moving), others.flatMap(horizontalLines), threshold);
+  const aligned = { ...moving, x: moving.x + dx, y: moving.y + dy };
+  const guides = new Map<string, Guide>();
+
+  const addGuide = (orientation: Guide['orientation'], position: number, start: number, end: number): void => {
+    const key = `${orientation}:${position}`;
+    const existing = guides.get(key);
+    guides.set(key, existing
+      ? { ...existing, start: Math.min(existing.start, start), end: Math.max(existing.end, end) }
+      : { orientation, position, start, end });
+  };
+
+  others.forEach(other => {
+    verticalLines(aligned).forEach(line => {
+      if (verticalLines(other).some(target => Math.abs(target - line) < 0.5)) {
+        addGuide(
+          'vertical',
+          line,
+          Math.min(aligned.y, other.y),
+          Math.max(aligned.y + aligned.height, other.y + other.height)
+        );
+      }
+    });
+
+    horizontalLines(aligned).forEach(line => {
+      if (horizontalLines(other).some(target => Math.abs(target - line) < 0.5)) {
+        addGuide(
+          'horizontal',
+          line,
+          Math.min(aligned.x, other.x),
+          Math.max(aligned.x + aligned.width, other.x + other.width)
+        );
+      }
+    });
+  });
+
+  return { dx, dy, guides: [...guides.values()] };
+};
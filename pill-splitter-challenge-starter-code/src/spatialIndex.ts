@@ -0,0 +1,92 @@
+import { containsPoint, intersects, type Bounds, type Rectangle } from './rectangles';
+
+// World units per grid cell; large enough that a typical rectangle spans only a few cells.
+const CELL_SIZE = 128;
+
+export interface SpatialIndex {
+  rectangles: Rectangle[];
+  // Indexes into `rectangles`, ascending so callers keep paint order.
+  queryPoint: (x: number, y: number) => number[];
+  queryBounds: (bounds: Bounds) => number[];
+  queryRow: (y: number) => number[];
+  queryColumn: (x: number) => number[];
+  hitTest: (x: number, y: number) => number;
+}
+
+const cellOf = (value: number): number => Math.floor(value / CELL_SIZE);
+
+const push = <K,>(buckets: Map<K, number[]>, key: K, index: number): void => {
+  const bucket = buckets.get(key);
+  if (bucket) bucket.push(index);
+  else buckets.set(key, [index]);
+};
+
+const sortedUnique = (indexes: Iterable<number>): number[] =>
+  [...new Set(indexes)].sort((a, b) => a - b);
+
+// A uniform grid over the rectangles plus per-row and per-column buckets for the split lines.
+// Rebuilding is linear, so the index is recreated whenever the rectangle array changes.
+export const createSpatialIndex = (rectangles: Rectangle[]): SpatialIndex => {
+  const cells = new Map<string, number[]>();
+  const rows = new Map<number, number[]>();
+  const columns = new Map<number, number[]>();
+
+  rectangles.forEach((rectangle, index) => {
+    const left = cellOf(rectangle.x);
+    const right = cellOf(rectangle.x + rectangle.width);
+    const top = cellOf(rectangle.y);
+    const bottom = cellOf(rectangle.y + rectangle.height);
+
+    for (let row = top; row <= bottom; row++) {
+      push(rows, row, index);
+      for (let column = left; column <= right; column++) {
+        push(cells, `${column},${row}`, index);
+      }
+    }
+    for (let column = left; column <= right; column++) {
+      push(columns, column, index);
+    }
+  });
+
+  const queryPoint = (x: number, y: number): number[] =>
+    (cells.get(`${cellOf(x)},${cellOf(y)}`) ?? []).filter(index => containsPoint(rectangles[index], x, y));
+
+  const queryBounds = (bounds: Bounds): number[] => {
+    const left = cellOf(bounds.x);
+    const right = cellOf(bounds.x + bounds.width);
+    const top = cellOf(bounds.y);
+    const bottom = cellOf(bounds.y + bounds.height);
+
+    // A query wider than the populated grid is cheaper as a plain scan.
+    if ((right - left + 1) * (bottom - top + 1) > cells.size) {
+      return rectangles.flatMap((rectangle, index) => intersects(rectangle, bounds) ? [index] : []);
+    }
+
+    const found: number[] = [];
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        cells.get(`${column},${row}`)?.forEach(index => {
+          if (intersects(rectangles[index], bounds)) found.push(index);
+        });
+      }
+    }
+    return sortedUnique(found);
+  };
+
+  const queryRow = (y: number): number[] =>
+    (rows.get(cellOf(y)) ?? []).filter(index =>
+      y > rectangles[index].y && y < rectangles[index].y + rectangles[index].height
+    );
+
+  const queryColumn = (x: number): number[] =>
+    (columns.get(cellOf(x)) ?? []).filter(index =>
+      x > rectangles[index].x && x < rectangles[index].x + rectangles[index].width
+    );
+
+  const hitTest = (x: number, y: number): number => {
+    const hits = queryPoint(x, y);
+    return hits.length > 0 ? hits[hits.length - 1] : -1;
+  };
+
+  return { rectangles, queryPoint, queryBounds, queryRow, queryColumn, hitTest };
+};
@@ -0,0 +1,139 @@
+import { intersects, splitRectangle, type Bounds, type Layout, type Rectangle } from './rectangles';
+import type { SpatialIndex } from './spatialIndex';
+
+export type SplitMode = 'both' | 'horizontal' | 'vertical' | 'under-cursor';
+
+export type SplitScope = 'all' | 'topmost';
+
+export interface SplitOptions {
+  mode: SplitMode;
+  scope: SplitScope;
+  // Cut into this many equal pieces along each crossed axis; null cuts at the click point.
+  parts: number | null;
+  minSize: number;
+  targetIds?: number[];
+}
+
+// Where a rectangle will be cut, as absolute positions of the new vertical and horizontal edges.
+export interface SplitCut {
+  rectangle: Rectangle;
+  xs: number[];
+  ys: number[];
+}
+
+export const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'both', label: 'Both lines' },
+  { value: 'horizontal', label: 'Horizontal line' },
+  { value: 'vertical', label: 'Vertical line' },
+  { value: 'under-cursor', label: 'Rectangle under cursor' }
+];
+
+const cutPositions = (
+  start: number,
+  length: number,
+  at: number,
+  parts: number | null,
+  minSize: number
+): number[] | null => {
+  if (parts === null) {
+    const relative = at - start;
+    return relative >= minSize && length - relative >= minSize ? [at] : null;
+  }
+
+  if (length / parts < minSize) return null;
+  return Array.from({ length: parts - 1 }, (_, index) => start + (length * (index + 1)) / parts);
+};
+
+export const planSplit = (
+  index: SpatialIndex,
+  point: { x: number; y: number },
+  options: SplitOptions
+): SplitCut[] => {
+  const { mode, scope, parts, minSize, targetIds } = options;
+  const { rectangles } = index;
+  const isTarget = (rectangle: Rectangle): boolean => !targetIds || targetIds.includes(rectangle.id);
+  const useHorizontal = mode !== 'vertical';
+  const useVertical = mode !== 'horizontal';
+
+  const crossesHorizontal = (rectangle: Rectangle): boolean =>
+    useHorizontal && point.y > rectangle.y && point.y < rectangle.y + rectangle.height;
+  const crossesVertical = (rectangle: Rectangle): boolean =>
+    useVertical && point.x > rectangle.x && point.x < rectangle.x + rectangle.width;
+
+  let candidates: Rectangle[];
+
+  if (mode === 'under-cursor') {
+    const hit = index.hitTest(point.x, point.y);
+    candidates = hit !== -1 && isTarget(rectangles[hit]) ? [rectangles[hit]] : [];
+  } else {
+    // The row and column buckets already hold only the rectangles a line passes through.
+    const crossed = new Set([
+      ...(useHorizontal ? index.queryRow(point.y) : []),
+      ...(useVertical ? index.queryColumn(point.x) : [])
+    ]);
+    candidates = [...crossed]
+      .sort((a, b) => a - b)
+      .map(position => rectangles[position])
+      .filter(isTarget);
+
+    // In `topmost` scope a crossed rectangle hidden under a higher crossed one is left whole.
+    if (scope === 'topmost') {
+      const cut: Rectangle[] = [];
+      for (let position = candidates.length - 1; position >= 0; position--) {
+        if (!cut.some(above => intersects(above, candidates[position]))) cut.push(candidates[position]);
+      }
+      candidates = cut.reverse();
+    }
+  }
+
+  const cuts: SplitCut[] = [];
+
+  candidates.forEach(rectangle => {
+    const ys = crossesHorizontal(rectangle)
+      ? cutPositions(rectangle.y, rectangle.height, point.y, parts, minSize)
+      : null;
+    const xs = crossesVertical(rectangle)
+      ? cutPositions(rectangle.x, rectangle.width, point.x, parts, minSize)
+      : null;
+
+    if (xs || ys) cuts.push({ rectangle, xs: xs ?? [], ys: ys ?? [] });
+  });
+
+  return cuts;
+};
+
+const cutPieces = ({ rectangle, xs, ys }: SplitCut): Bounds[] => {
+  const columns = [rectangle.x, ...xs, rectangle.x + rectangle.width];
+  const rows = [rectangle.y, ...ys, rectangle.y + rectangle.height];
+  const pieces: Bounds[] = [];
+
+  for (let row = 0; row < rows.length - 1; row++) {
+    for (let column = 0; column < columns.length - 1; column++) {
+      pieces.push({
+        x: columns[column],
+        y: rows[row],
+        width: columns[column + 1] - columns[column],
+        height: rows[row + 1] - rows[row]
+      });
+    }
+  }
+
+  return pieces;
+};
+
+// Replaces every cut rectangle with its pieces and keeps it in the ancestor table for merging.
+export const applySplit = (layout: Layout, cuts: SplitCut[]): Layout => {
+  const cutsById = new Map(cuts.map(cut => [cut.rectangle.id, cut]));
+  const ancestors = { ...layout.ancestors };
+  cuts.forEach(({ rectangle }) => {
+    ancestors[rectangle.id] = rectangle;
+  });
+
+  return {
+    rectangles: layout.rectangles.flatMap(rectangle => {
+      const cut = cutsById.get(rectangle.id);
+      return cut ? splitRectangle(rectangle, cutPieces(cut)) : [rectangle];
+    }),
+    ancestors
+  };
+};
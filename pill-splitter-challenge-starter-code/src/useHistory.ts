@@ -0,0 +1,128 @@
+import { useCallback, useState } from 'react';
+
+type Updater<T> = T | ((prev: T) => T);
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Snapshot taken by `begin`; while set, `preview` updates are folded into one entry.
+  pending: T | null;
+}
+
+export interface History<T> {
+  present: T;
+  // The latest whole entry: `present` once settled, the snapshot from `begin` while previewing.
+  committed: T;
+  canUndo: boolean;
+  canRedo: boolean;
+  set: (update: Updater<T>) => void;
+  begin: () => void;
+  preview: (update: Updater<T>) => void;
+  commit: () => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+const resolve = <T,>(update: Updater<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+// Commits the open transaction, if any, so undo/redo always act on whole entries.
+const settle = <T,>(state: HistoryState<T>): HistoryState<T> => {
+  if (state.pending === null) return state;
+  if (state.pending === state.present) return { ...state, pending: null };
+
+  return {
+    past: [...state.past, state.pending],
+    present: state.present,
+    future: [],
+    pending: null
+  };
+};
+
+export default function useHistory<T>(initial: T | (() => T)): History<T> {
+  const [state, setState] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    pending: null
+  }));
+
+  const set = useCallback((update: Updater<T>): void => {
+    setState(prev => {
+      const settled = settle(prev);
+      const next = resolve(update, settled.present);
+      if (next === settled.present) return settled;
+
+      return {
+        past: [...settled.past, settled.present],
+        present: next,
+        future: [],
+        pending: null
+      };
+    });
+  }, []);
+
+  const begin = useCallback((): void => {
+    setState(prev => {
+      const settled = settle(prev);
+      return { ...settled, pending: settled.present };
+    });
+  }, []);
+
+  const preview = useCallback((update: Updater<T>): void => {
+    setState(prev => {
+      const next = resolve(update, prev.present);
+      if (next === prev.present) return prev;
+      if (prev.pending === null) {
+        return { past: [...prev.past, prev.present], present: next, future: [], pending: null };
+      }
+      return { ...prev, present: next };
+    });
+  }, []);
+
+  const commit = useCallback((): void => {
+    setState(settle);
+  }, []);
+
+  const undo = useCallback((): void => {
+    setState(prev => {
+      const settled = settle(prev);
+      if (settled.past.length === 0) return settled;
+
+      return {
+        past: settled.past.slice(0, -1),
+        present: settled.past[settled.past.length - 1],
+        future: [settled.present, ...settled.future],
+        pending: null
+      };
+    });
+  }, []);
+
+  const redo = useCallback((): void => {
+    setState(prev => {
+      const settled = settle(prev);
+      if (settled.future.length === 0) return settled;
+
+      return {
+        past: [...settled.past, settled.present],
+        present: settled.future[0],
+        future: settled.future.slice(1),
+        pending: null
+      };
+    });
+  }, []);
+
+  return {
+    present: state.present,
+    committed: state.pending !== null ? state.pending : state.present,
+    canUndo: state.past.length > 0 || (state.pending !== null && state.pending !== state.present),
+    canRedo: state.future.length > 0,
+    set,
+    begin,
+    preview,
+    commit,
+    undo,
+    redo
+  };
+}
@@ -0,0 +1,57 @@
+import type { Bounds } from './rectangles';
+
+// Screen position of the world origin plus the zoom factor: screen = world * scale + offset.
+export interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 8;
+
+// Wheel delta, in pixels, that zooms by a factor of e; trackpad pinches send small deltas.
+const WHEEL_ZOOM_SPEED = 300;
+
+const FIT_PADDING = 40;
+
+export const IDENTITY_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+export const screenToWorld = (view: Viewport, point: { x: number; y: number }): { x: number; y: number } => ({
+  x: (point.x - view.x) / view.scale,
+  y: (point.y - view.y) / view.scale
+});
+
+export const worldToScreen = (view: Viewport, point: { x: number; y: number }): { x: number; y: number } => ({
+  x: point.x * view.scale + view.x,
+  y: point.y * view.scale + view.y
+});
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Zooms around a screen point so the world position under it stays put.
+export const zoomAt = (view: Viewport, point: { x: number; y: number }, factor: number): Viewport => {
+  const scale = clampScale(view.scale * factor);
+  const anchor = screenToWorld(view, point);
+
+  return {
+    x: point.x - anchor.x * scale,
+    y: point.y - anchor.y * scale,
+    scale
+  };
+};
+
+export const wheelZoomFactor = (deltaY: number): number => Math.exp(-deltaY / WHEEL_ZOOM_SPEED);
+
+export const fitBounds = (bounds: Bounds, screenWidth: number, screenHeight: number): Viewport => {
+  const scale = clampScale(Math.min(
+    (screenWidth - FIT_PADDING * 2) / bounds.width,
+    (screenHeight - FIT_PADDING * 2) / bounds.height
+  ));
+
+  return {
+    x: (screenWidth - bounds.width * scale) / 2 - bounds.x * scale,
+    y: (screenHeight - bounds.height * scale) / 2 - bounds.y * scale,
+    scale
+  };
+};
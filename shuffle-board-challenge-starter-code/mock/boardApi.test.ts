@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, fetchBoard, sendMutation } from '../src/api';
+import {
+  addCard,
+  addColumn,
+  emptyCard,
+  initialColumns,
+  moveCard,
+  moveColumn,
+  removeColumn,
+  updateCard,
+  updateColumnRules,
+  type Column
+} from '../src/board';
+import { diffBoards, revertMutation } from '../src/sync';
+import { createBoardApi, type BoardApi } from './boardApi';
+
+// The client's own request code talks to the mock through a stubbed `fetch`.
+const serve = (api: BoardApi) => async (url: string, init?: RequestInit): Promise<Response> => {
+  const { status, body } = api.handle(init?.method ?? 'GET', url.replace(/^\/api/, ''), String(init?.body ?? ''));
+  return new Response(JSON.stringify(body), { status });
+};
+
+const sync = async (before: Column[], after: Column[]): Promise<void> => {
+  for (const mutation of diffBoards(before, after)) await sendMutation(mutation);
+};
+
+describe('createBoardApi', () => {
+  let api: BoardApi;
+
+  beforeEach(() => {
+    api = createBoardApi();
+    vi.stubGlobal('fetch', serve(api));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves the board it was seeded with', async () => {
+    expect(await fetchBoard()).toEqual(initialColumns);
+  });
+
+  it('ends up with the client board after each synced change', async () => {
+    const edits: ((columns: Column[]) => Column[])[] = [
+      columns => moveCard(columns, 1, { columnId: 2, index: 1 }),
+      columns => moveCard(columns, 7, { columnId: 2, index: 0 }),
+      columns => addCard(columns, 1, { ...emptyCard('bg-green-200'), title: 'Write the release notes' }),
+      columns => updateCard(columns, 3, { title: 'Renamed', labels: ['docs'] }),
+      columns => addColumn(columns, 'Review'),
+      columns => moveColumn(columns, 2, 1),
+      columns => removeColumn(columns, 2, { action: 'move', targetColumnId: 3 }),
+      columns => removeColumn(columns, 1, { action: 'delete' })
+    ];
+
+    let client = initialColumns;
+    for (const edit of edits) {
+      const next = edit(client);
+      await sync(client, next);
+      client = next;
+      expect(await fetchBoard()).toEqual(client);
+    }
+  });
+
+  it('refuses a move into a full column, which the client then rolls back', async () => {
+    const limited = updateColumnRules(initialColumns, 2, { wipLimit: 4, rejectsFrom: [] });
+    await sync(initialColumns, limited);
+
+    const moved = moveCard(limited, 1, { columnId: 2, index: 0 });
+    const [mutation] = diffBoards(limited, moved);
+    const error = await sendMutation(mutation).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 409, message: 'Done is limited to 4 cards.' });
+    expect(revertMutation(moved, limited, mutation)).toEqual(limited);
+    expect(await fetchBoard()).toEqual(limited);
+  });
+
+  it('answers malformed requests with an error status', () => {
+    expect(api.handle('PUT', '/cards/1', '{')).toMatchObject({ status: 400 });
+    expect(api.handle('PUT', '/cards/1', JSON.stringify({ title: 7, columnId: 1 }))).toMatchObject({ status: 400 });
+    expect(api.handle('GET', '/cards', '')).toMatchObject({ status: 404 });
+    expect(api.handle('DELETE', '/cards/999', '')).toMatchObject({ status: 404 });
+    expect(api.handle('DELETE', '/columns/1', '')).toMatchObject({ status: 409 });
+    expect(api.handle('PUT', '/column-order', JSON.stringify({ columnIds: [1, 99] }))).toMatchObject({ status: 400 });
+  });
+});
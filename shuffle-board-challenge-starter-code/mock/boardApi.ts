@@ -0,0 +1,177 @@
+import type { Connect, Plugin } from 'vite';
+import { initialColumns, insertByRank, type Column } from '../src/board';
+import { BoardError, isRecord, parseCard, parseColumn, SCHEMA_VERSION } from '../src/boardFile';
+import { dropRejection } from '../src/rules';
+
+// An in-memory stand-in for the board API, for development and tests. `createBoardApi` is plain
+// request-in, response-out, so tests can call it directly; `mockBoardApi` serves it from Vite.
+//
+//   GET    /api/board           the whole board, in the board file format
+//   PUT    /api/columns/:id     creates or updates a column: { title, wipLimit, rejectsFrom }
+//   DELETE /api/columns/:id     deletes an empty column
+//   PUT    /api/column-order    { columnIds }; columns it leaves out keep their order at the end
+//   PUT    /api/cards/:id       creates, edits or moves a card: its fields plus { columnId }
+//   DELETE /api/cards/:id
+//
+// Errors come back as { error } with a 4xx status. Moves that break a column's rules get a 409, as
+// they would if another client had filled the column first.
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface BoardApi {
+  handle: (method: string, path: string, body: string) => ApiResponse;
+}
+
+export interface MockBoardApiOptions {
+  seed?: Column[];
+  // Milliseconds every response is held back, so optimistic updates are visible in development.
+  latency?: number;
+  // Share of writes refused with a 503 at random, for trying out rollbacks.
+  failureRate?: number;
+}
+
+const ok = (body: unknown = null): ApiResponse => ({ status: 200, body });
+
+const fail = (status: number, error: string): ApiResponse => ({ status, body: { error } });
+
+export const createBoardApi = (seed: Column[] = initialColumns): BoardApi => {
+  let columns: Column[] = JSON.parse(JSON.stringify(seed));
+
+  const putColumn = (id: number, body: Record<string, unknown>): ApiResponse => {
+    const parsed = parseColumn({ ...body, id, cards: [] }, 'column');
+    const existing = columns.find(column => column.id === id);
+    columns = existing
+      ? columns.map(column => column.id === id ? { ...parsed, cards: column.cards } : column)
+      : [...columns, parsed];
+    return ok();
+  };
+
+  const deleteColumn = (id: number): ApiResponse => {
+    const column = columns.find(candidate => candidate.id === id);
+    if (!column) return fail(404, 'That column does not exist.');
+    if (column.cards.length > 0) return fail(409, `${column.title} still has cards.`);
+
+    columns = columns
+      .filter(candidate => candidate.id !== id)
+      .map(candidate => ({ ...candidate, rejectsFrom: candidate.rejectsFrom.filter(source => source !== id) }));
+    return ok();
+  };
+
+  const orderColumns = (body: Record<string, unknown>): ApiResponse => {
+    const ids = body.columnIds;
+    if (!Array.isArray(ids) || !ids.every(id => columns.some(column => column.id === id))) {
+      return fail(400, 'columnIds must list columns on the board.');
+    }
+
+    const position = (column: Column) => {
+      const index = ids.indexOf(column.id);
+      return index === -1 ? Infinity : index;
+    };
+    columns = [...columns].sort((a, b) => position(a) - position(b));
+    return ok();
+  };
+
+  const putCard = (id: number, body: Record<string, unknown>): ApiResponse => {
+    const card = parseCard({ ...body, id }, 'card');
+    const target = columns.find(column => column.id === body.columnId);
+    if (!target) return fail(409, 'The column this card is going to no longer exists.');
+
+    const source = columns.find(column => column.cards.some(existing => existing.id === id));
+    if (source && source.id !== target.id) {
+      const rejection = dropRejection(columns, [id], { columnId: target.id, index: 0 });
+      if (rejection) return fail(409, rejection);
+    }
+
+    columns = columns.map(column => {
+      const cards = column.cards.filter(existing => existing.id !== id);
+      return column.id === target.id ? { ...column, cards: insertByRank(cards, card) } : { ...column, cards };
+    });
+    return ok();
+  };
+
+  const deleteCard = (id: number): ApiResponse => {
+    if (!columns.some(column => column.cards.some(existing => existing.id === id))) {
+      return fail(404, 'That card does not exist.');
+    }
+    columns = columns.map(column => ({ ...column, cards: column.cards.filter(existing => existing.id !== id) }));
+    return ok();
+  };
+
+  const handle = (method: string, path: string, text: string): ApiResponse => {
+    let body: unknown = null;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return fail(400, 'The request body is not valid JSON.');
+      }
+    }
+
+    const [, resource, rawId, ...rest] = path.split('?')[0].split('/');
+    const id = Number(rawId);
+    if (rest.length > 0 || (rawId !== undefined && !Number.isInteger(id))) return fail(404, `No route for ${path}.`);
+
+    try {
+      if (method === 'GET' && resource === 'board' && rawId === undefined) {
+        return ok({ version: SCHEMA_VERSION, columns });
+      }
+      if (method === 'PUT' && resource === 'column-order' && rawId === undefined && isRecord(body)) {
+        return orderColumns(body);
+      }
+      if (method === 'PUT' && resource === 'columns' && rawId !== undefined && isRecord(body)) return putColumn(id, body);
+      if (method === 'DELETE' && resource === 'columns' && rawId !== undefined) return deleteColumn(id);
+      if (method === 'PUT' && resource === 'cards' && rawId !== undefined && isRecord(body)) return putCard(id, body);
+      if (method === 'DELETE' && resource === 'cards' && rawId !== undefined) return deleteCard(id);
+    } catch (error) {
+      if (error instanceof BoardError) return fail(400, error.message);
+      throw error;
+    }
+
+    return fail(404, `No route for ${method} ${path}.`);
+  };
+
+  return { handle };
+};
+
+export const mockBoardApi = ({ seed, latency = 300, failureRate = 0 }: MockBoardApiOptions = {}): Plugin => {
+  const api = createBoardApi(seed);
+
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    const url = req.url ?? '';
+    if (!url.startsWith('/api/')) {
+      next();
+      return;
+    }
+
+    let text = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      text += chunk;
+    });
+    req.on('end', () => {
+      setTimeout(() => {
+        const method = req.method ?? 'GET';
+        const response = method !== 'GET' && Math.random() < failureRate
+          ? fail(503, 'The mock server dropped this change on purpose.')
+          : api.handle(method, url.slice('/api'.length), text);
+
+        res.statusCode = response.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(response.body));
+      }, latency);
+    });
+  };
+
+  return {
+    name: 'mock-board-api',
+    configureServer: server => {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer: server => {
+      server.middlewares.use(middleware);
+    }
+  };
+};
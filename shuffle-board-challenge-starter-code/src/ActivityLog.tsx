@@ -0,0 +1,37 @@
+import React from 'react';
+import type { HistoryEntry } from './useBoardHistory';
+
+interface ActivityLogProps {
+  entries: HistoryEntry[];
+  // The entry the board currently shows; later ones can still be redone.
+  index: number;
+  onSelect: (index: number) => void;
+}
+
+const formatTime = (at: number): string =>
+  new Date(at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const ActivityLog: React.FC<ActivityLogProps> = ({ entries, index, onSelect }) => (
+  <aside className="w-72 shrink-0 bg-white rounded-xl border border-gray-200 p-4 flex flex-col gap-2 max-h-[calc(100vh-4rem)] sticky top-8">
+    <h2 className="text-lg font-semibold">Activity</h2>
+    <p className="text-xs text-gray-500">Click an entry to bring the board back to that point.</p>
+    <ol className="flex flex-col-reverse gap-1 overflow-y-auto">
+      {entries.map((entry, position) => (
+        <li key={entry.id}>
+          <button
+            aria-current={position === index ? 'step' : undefined}
+            className={`w-full text-left px-2 py-1.5 rounded-lg text-sm hover:bg-gray-100 ${
+              position === index ? 'bg-blue-50 ring-1 ring-blue-300' : ''
+            } ${position > index ? 'text-gray-400' : 'text-gray-800'}`}
+            onClick={() => onSelect(position)}
+          >
+            {entry.description}
+            <span className="block text-xs text-gray-500">at {formatTime(entry.at)}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  </aside>
+);
+
+export default ActivityLog;
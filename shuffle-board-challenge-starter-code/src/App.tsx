@@ -1,278 +1,1108 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
+import {
+  addCard,
+  addColumn,
+  batchDropIndex,
+  CARD_COLORS,
+  cardRange,
+  cardsInBoardOrder,
+  deleteCard,
+  dropPosition,
+  emptyCard,
+  findCard,
+  initialColumns,
+  moveCard,
+  moveCards,
+  moveColumn,
+  removeColumn,
+  renameColumn,
+  updateCard,
+  updateColumnRules,
+  type Card,
+  type CardDisposition,
+  type CardDraft,
+  type CardPosition,
+  type Column
+} from './board';
+import ActivityLog from './ActivityLog';
+import { autoScrollSpeed, scrollBy } from './autoScroll';
+import {
+  columnPositions,
+  columnSlot,
+  describeLaneChange,
+  EMPTY_FILTER,
+  isFiltering,
+  laneChanges,
+  laneOf,
+  lanesFor,
+  listKey,
+  matchesFilter,
+  moveToLane,
+  shownSlot,
+  boardAssignees,
+  boardLabels,
+  type BoardFilter,
+  type LaneField
+} from './boardView';
+import CardDialog from './CardDialog';
+import CardList, { type CardHandlers, type ListHandle } from './CardList';
+import ColumnRulesDialog from './ColumnRulesDialog';
+import DeleteColumnDialog from './DeleteColumnDialog';
+import { $dragPointer } from './dragPointer';
+import DragLayer from './DragLayer';
+import FilterBar from './FilterBar';
+import { queueLanding } from './flip';
+import { dropRejection, overWipLimit } from './rules';
+import SyncToasts from './SyncToasts';
+import { parseBoard, serializeBoard } from './boardFile';
+import { downloadFile, loadBoard, saveBoard } from './persistence';
+import useBoardHistory from './useBoardHistory';
+import useBoardSync, { type SyncStatus } from './useBoardSync';
 
-interface Card {
-  id: number;
-  height: number;
-  color: string;
+// A drop slot, and the swimlane it is in when the board has lanes.
+interface DropTarget extends CardPosition {
+  lane: string | null;
 }
 
 interface DragState {
   isDragging: boolean;
   draggedCard: Card | null;
-  draggedFrom: { columnId: number; index: number } | null;
-  dropTarget: { columnId: number; index: number } | null;
-  mousePosition: { x: number; y: number };
+  // Every card being carried, in board order; just `draggedCard` unless a selection was picked up.
+  draggedCardIds: number[];
+  // Rendered height of the dragged card, so the drop placeholder matches it exactly.
+  placeholderHeight: number;
+  draggedFrom: CardPosition | null;
+  dropTarget: DropTarget | null;
+  // Picked up with Space rather than the pointer; arrow keys move the drop target.
+  keyboard: boolean;
+  // Where the pointer grabbed the card and how wide it was, so the floating preview lines up with it.
+  grabOffset: { x: number; y: number };
+  previewWidth: number;
 }
 
-const KanbanBoard: React.FC = () => {
-  const [leftColumn, setLeftColumn] = useState<Card[]>([
-    { id: 1, height: 120, color: 'bg-purple-200' },
-    { id: 2, height: 80, color: 'bg-blue-200' },
-    { id: 3, height: 100, color: 'bg-amber-100' },
-    { id: 4, height: 140, color: 'bg-green-200' }
-  ]);
-
-  const [rightColumn, setRightColumn] = useState<Card[]>([
-    { id: 5, height: 70, color: 'bg-green-200' },
-    { id: 6, height: 160, color: 'bg-purple-200' },
-    { id: 7, height: 130, color: 'bg-green-200' },
-    { id: 8, height: 110, color: 'bg-amber-100' }
-  ]);
-
-  const [dragState, setDragState] = useState<DragState>({
-    isDragging: false,
-    draggedCard: null,
-    draggedFrom: null,
-    dropTarget: null,
-    mousePosition: { x: 0, y: 0 }
+// A pointer held down on a card that may still turn into a drag.
+interface PressState {
+  pointerId: number;
+  pointerType: string;
+  card: Card;
+  from: CardPosition;
+  start: { x: number; y: number };
+  grabOffset: { x: number; y: number };
+  rect: { width: number; height: number };
+  dragging: boolean;
+}
+
+// Pixels a mouse or pen must travel before a press becomes a drag, so clicks stay clicks.
+const DRAG_THRESHOLD = 5;
+
+// Touch drags start with a long press; moving sooner than this scrolls the page instead.
+const LONG_PRESS_DELAY = 400;
+
+// The card list under a point. The floating preview ignores the pointer, so it never gets in the way.
+// The list itself works out the slot from its layout, without measuring any cards.
+const pointerTargetAt = (lists: Map<string, ListHandle>, x: number, y: number): DropTarget | null => {
+  const list = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-column-id]');
+  if (!list) return null;
+
+  const columnId = Number(list.dataset.columnId);
+  const lane = list.dataset.lane ?? null;
+  const handle = lists.get(listKey(columnId, lane));
+  return handle ? { columnId, index: handle.dropIndexAt(y), lane } : null;
+};
+
+const sameTarget = (a: DropTarget | null, b: DropTarget | null): boolean =>
+  a?.columnId === b?.columnId && a?.index === b?.index && a?.lane === b?.lane;
+
+// The list whose scroll band a pointer is in. Being above or below a column's only list still scrolls
+// it; with swimlanes the pointer has to be over the list, since every lane has one.
+const scrollableListAt = (x: number, y: number): HTMLElement | undefined => {
+  const inColumn = [...document.querySelectorAll<HTMLElement>('[data-column-id]')].filter(list => {
+    const rect = list.getBoundingClientRect();
+    return x >= rect.left && x <= rect.right;
+  });
+  const under = inColumn.find(list => {
+    const rect = list.getBoundingClientRect();
+    return y >= rect.top && y <= rect.bottom;
   });
+  return under ?? (inColumn.length === 1 ? inColumn[0] : undefined);
+};
+
+// Where the floating preview's top-left corner is, which is where released cards fly from.
+const releasePoint = (grabOffset: { x: number; y: number }) => {
+  const pointer = $dragPointer.get();
+  return { x: pointer.x - grabOffset.x, y: pointer.y - grabOffset.y };
+};
+
+const idleDragState: DragState = {
+  isDragging: false,
+  draggedCard: null,
+  draggedCardIds: [],
+  placeholderHeight: 0,
+  draggedFrom: null,
+  dropTarget: null,
+  keyboard: false,
+  grabOffset: { x: 0, y: 0 },
+  previewWidth: 0
+};
+
+// The card detail dialog either edits an existing card or creates one at the end of a column, in a
+// swimlane when the board has them.
+type CardDialogState = { cardId: number } | { columnId: number; lane: string | null };
+
+// A column header being dragged; `dropIndex` is the slot between columns it would land in.
+interface ColumnDragState {
+  columnId: number;
+  dropIndex: number | null;
+}
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  connecting: 'Connecting…',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  offline: 'Offline — changes are kept in this browser'
+};
+
+const KanbanBoard: React.FC = () => {
+  const [loaded] = useState(loadBoard);
+  const history = useBoardHistory(() => loaded.columns ?? initialColumns);
+  const { columns, record } = history;
+  const sync = useBoardSync({ columns, local: loaded.columns !== null, record, reset: history.reset });
+  const [errorMessage, setErrorMessage] = useState(loaded.error);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [columnDrag, setColumnDrag] = useState<ColumnDragState | null>(null);
+  const [editingColumn, setEditingColumn] = useState<{ id: number; title: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+  const [rulesColumnId, setRulesColumnId] = useState<number | null>(null);
+  const [filter, setFilter] = useState<BoardFilter>(EMPTY_FILTER);
+  const [laneField, setLaneField] = useState<LaneField | null>(null);
+  const [editingCardId, setEditingCardId] = useState<number | null>(null);
+  const [cardDialog, setCardDialog] = useState<CardDialogState | null>(null);
+
+  const [dragState, setDragState] = useState<DragState>(idleDragState);
+  const [announcement, setAnnouncement] = useState('');
+  const [selectedCardIds, setSelectedCardIds] = useState<number[]>([]);
+  // The card a Shift-click range starts from.
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  const boardRef = useRef<HTMLDivElement>(null);
+  // A card dropped into another column remounts there; this puts keyboard focus back on it.
+  const refocusCardIdRef = useRef<number | null>(null);
+  const boardScrollerRef = useRef<HTMLDivElement>(null);
+  const listsRef = useRef(new Map<string, ListHandle>());
+  const pressRef = useRef<PressState | null>(null);
+  const longPressRef = useRef<number | null>(null);
+
+  // Opening the board writes nothing, so a save this version could not read survives until the first change.
+  const savedColumnsRef = useRef(columns);
+  useEffect(() => {
+    if (columns === savedColumnsRef.current) return;
+    savedColumnsRef.current = columns;
+    saveBoard(columns);
+  }, [columns]);
+
+  const { undo, redo } = history;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
 
-  const dragOverlayRef = useRef<HTMLDivElement>(null);
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (dragState.isDragging) {
-        setDragState(prev => ({
-          ...prev,
-          mousePosition: { x: e.clientX, y: e.clientY }
-        }));
+    const cardId = refocusCardIdRef.current;
+    if (cardId === null) return;
+    columns.forEach(column => {
+      const card = column.cards.find(candidate => candidate.id === cardId);
+      if (!card) return;
+      const lane = laneField ? laneOf(card, laneField) : null;
+      listsRef.current.get(listKey(column.id, lane))?.revealCard(cardId, true);
+    });
+    refocusCardIdRef.current = null;
+  }, [columns, laneField]);
+
+  const lanes = useMemo(() => laneField ? lanesFor(columns, laneField) : null, [columns, laneField]);
+
+  // The cards each list shows, by list key. Without filters or lanes a list shows its column as it is,
+  // so the lists can skip re-rendering when their column did not change.
+  const shownCards = useMemo(() => {
+    const filtering = isFiltering(filter);
+    const shown = new Map<string, Card[]>();
+
+    columns.forEach(column => {
+      const matching = filtering ? column.cards.filter(card => matchesFilter(card, filter)) : column.cards;
+      if (!laneField || !lanes) {
+        shown.set(listKey(column.id, null), matching);
+        return;
       }
+      lanes.forEach(lane => {
+        shown.set(listKey(column.id, lane.key), matching.filter(card => laneOf(card, laneField) === lane.key));
+      });
+    });
+
+    return shown;
+  }, [columns, filter, laneField, lanes]);
+
+  const labels = useMemo(() => boardLabels(columns), [columns]);
+  const assignees = useMemo(() => boardAssignees(columns), [columns]);
+
+  const shownIn = (columnId: number, lane: string | null): Card[] => shownCards.get(listKey(columnId, lane)) ?? [];
+  const laneFor = (card: Card): string | null => laneField ? laneOf(card, laneField) : null;
+
+  const pointerDragging = dragState.isDragging && !dragState.keyboard;
+  const { draggedCardIds: carriedCardIds, grabOffset } = dragState;
+
+  // Escape drops nothing; the press is forgotten so the rest of the gesture is ignored.
+  useEffect(() => {
+    if (!pointerDragging) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      pressRef.current = null;
+      queueLanding(carriedCardIds, releasePoint(grabOffset));
+      setDragState(idleDragState);
+      setAnnouncement('Move cancelled.');
     };
+    // Once a long press has started a drag the finger must move the card, not scroll the page.
+    const preventScroll = (e: TouchEvent) => e.preventDefault();
 
-    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('touchmove', preventScroll, { passive: false });
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('touchmove', preventScroll);
+    };
+  }, [pointerDragging, carriedCardIds, grabOffset]);
+
+  // While a card is carried near an edge, scroll the board or the column under it a little every frame.
+  // Scrolling moves cards under a still pointer, so the drop target is recomputed after each step.
+  useEffect(() => {
+    if (!pointerDragging) return;
+
+    let frame = 0;
+    const step = () => {
+      const { x, y } = $dragPointer.get();
+      let scrolled = false;
+
+      const board = boardScrollerRef.current;
+      if (board) {
+        const rect = board.getBoundingClientRect();
+        scrolled = scrollBy(board, 'x', autoScrollSpeed(x, rect.left, rect.right)) || scrolled;
+        scrolled = scrollBy(board, 'y', autoScrollSpeed(y, rect.top, rect.bottom)) || scrolled;
+      }
+
+      const list = scrollableListAt(x, y);
+      if (list) {
+        const rect = list.getBoundingClientRect();
+        scrolled = scrollBy(list, 'y', autoScrollSpeed(y, rect.top, rect.bottom)) || scrolled;
+      }
+
+      if (scrolled) {
+        const dropTarget = pointerTargetAt(listsRef.current, x, y);
+        if (dropTarget) setDragState(prev => sameTarget(prev.dropTarget, dropTarget) ? prev : { ...prev, dropTarget });
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [pointerDragging]);
+
+  // Escape clears the card selection unless it is busy cancelling a drag or closing a dialog.
+  useEffect(() => {
+    if (selectedCardIds.length === 0 || dragState.isDragging || cardDialog || pendingDeleteId !== null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !(e.target instanceof HTMLInputElement)) setSelectedCardIds([]);
     };
-  }, [dragState.isDragging]);
 
-  const handleDragStart = (e: React.DragEvent, card: Card, columnId: number, index: number) => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedCardIds.length, dragState.isDragging, cardDialog, pendingDeleteId]);
+
+  const clearLongPress = () => {
+    if (longPressRef.current !== null) {
+      window.clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
+  // Grabbing a selected card carries the whole selection; grabbing any other card carries just that one.
+  const startPointerDrag = (element: HTMLElement, press: PressState, x: number, y: number) => {
+    // Selected cards the filters have hidden since stay where they are.
+    const shown = new Set([...shownCards.values()].flatMap(cards => cards.map(card => card.id)));
+    const carried = selectedCardIds.includes(press.card.id)
+      ? cardsInBoardOrder(columns, selectedCardIds).map(selected => selected.id).filter(id => shown.has(id))
+      : [press.card.id];
+    if (carried.length === 1) setSelectedCardIds(carried);
+
+    press.dragging = true;
+    setErrorMessage(null);
+    $dragPointer.set({ x, y });
+    element.setPointerCapture(press.pointerId);
     setDragState({
       isDragging: true,
-      draggedCard: card,
-      draggedFrom: { columnId, index },
+      draggedCard: press.card,
+      draggedCardIds: carried,
+      placeholderHeight: press.rect.height,
+      draggedFrom: press.from,
       dropTarget: null,
-      mousePosition: { x: e.clientX, y: e.clientY }
+      keyboard: false,
+      grabOffset: press.grabOffset,
+      previewWidth: press.rect.width
     });
+    setAnnouncement(carried.length === 1 ? `${cardName(press.card)} picked up.` : `${carried.length} cards picked up.`);
+  };
 
-    e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('text/plain', '');
-    
-    setTimeout(() => {
-      const draggedElement = e.target as HTMLElement;
-      draggedElement.style.opacity = '0.3';
-    }, 0);
+  // Plain click selects one card, Ctrl or Cmd toggles it, Shift extends from the last click within a list.
+  const handleCardClick = (e: React.PointerEvent, card: Card, columnId: number) => {
+    const anchor = selectionAnchorRef.current;
+    const range = e.shiftKey && anchor !== null ? cardRange(columns, anchor, card.id) : null;
+
+    if (range) {
+      // Hidden cards and cards in other lanes sit between the two in the column, but not on screen.
+      const shown = new Set(shownIn(columnId, laneFor(card)).map(existing => existing.id));
+      const visibleRange = range.filter(id => shown.has(id));
+      setSelectedCardIds(prev => [...new Set([...prev, ...visibleRange])]);
+      return;
+    }
+
+    selectionAnchorRef.current = card.id;
+    if (e.ctrlKey || e.metaKey || e.shiftKey) {
+      setSelectedCardIds(prev =>
+        prev.includes(card.id) ? prev.filter(id => id !== card.id) : [...prev, card.id]
+      );
+    } else {
+      setSelectedCardIds([card.id]);
+    }
   };
 
-  const handleDragEnd = (e: React.DragEvent) => {
-    const draggedElement = e.target as HTMLElement;
-    draggedElement.style.opacity = '1';
+  // Only a change of slot touches React state; the pointer position itself lives in the store.
+  const updatePointerTarget = (x: number, y: number) => {
+    $dragPointer.set({ x, y });
+    const dropTarget = pointerTargetAt(listsRef.current, x, y);
+    if (!dropTarget) return;
 
-    if (dragState.dropTarget && dragState.draggedCard && dragState.draggedFrom) {
-      const { columnId: targetColumnId, index: targetIndex } = dragState.dropTarget;
-      const { columnId: sourceColumnId, index: sourceIndex } = dragState.draggedFrom;
-      
-      if (sourceColumnId === targetColumnId && sourceIndex === targetIndex) {
-        setDragState({
-          isDragging: false,
-          draggedCard: null,
-          draggedFrom: null,
-          dropTarget: null,
-          mousePosition: { x: 0, y: 0 }
-        });
+    setDragState(prev => sameTarget(prev.dropTarget, dropTarget) ? prev : { ...prev, dropTarget });
+  };
+
+  const handleCardPointerDown = (e: React.PointerEvent, card: Card, columnId: number, index: number) => {
+    if (e.button !== 0 || dragState.isDragging || editingCardId === card.id) return;
+    if ((e.target as HTMLElement).closest('button, input, textarea, select')) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const press: PressState = {
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      card,
+      from: { columnId, index },
+      start: { x: e.clientX, y: e.clientY },
+      grabOffset: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      rect: { width: rect.width, height: rect.height },
+      dragging: false
+    };
+    pressRef.current = press;
+
+    if (e.pointerType === 'touch') {
+      const element = e.currentTarget as HTMLElement;
+      clearLongPress();
+      longPressRef.current = window.setTimeout(() => {
+        longPressRef.current = null;
+        if (pressRef.current === press) startPointerDrag(element, press, press.start.x, press.start.y);
+      }, LONG_PRESS_DELAY);
+    }
+  };
+
+  const handleCardPointerMove = (e: React.PointerEvent) => {
+    const press = pressRef.current;
+    if (!press || press.pointerId !== e.pointerId) return;
+
+    if (!press.dragging) {
+      if (Math.hypot(e.clientX - press.start.x, e.clientY - press.start.y) < DRAG_THRESHOLD) return;
+
+      // A finger that moves before the long press fires is scrolling.
+      if (press.pointerType === 'touch') {
+        clearLongPress();
+        pressRef.current = null;
         return;
       }
+      startPointerDrag(e.currentTarget as HTMLElement, press, e.clientX, e.clientY);
+    }
 
-      if (sourceColumnId === targetColumnId) {
-        const sourceColumn = sourceColumnId === 0 ? leftColumn : rightColumn;
-        const newColumn = [...sourceColumn];
-        const [movedCard] = newColumn.splice(sourceIndex, 1);
-        const adjustedIndex = sourceIndex < targetIndex ? targetIndex - 1 : targetIndex;
-        newColumn.splice(adjustedIndex, 0, movedCard);
-        if (sourceColumnId === 0) {
-          setLeftColumn(newColumn);
-        } else {
-          setRightColumn(newColumn);
-        }
-      } else {
-        const sourceColumn = sourceColumnId === 0 ? leftColumn : rightColumn;
-        const targetColumn = targetColumnId === 0 ? leftColumn : rightColumn;
-        
-        const newSourceColumn = [...sourceColumn];
-        const newTargetColumn = [...targetColumn];
-        const [movedCard] = newSourceColumn.splice(sourceIndex, 1);
-        newTargetColumn.splice(targetIndex, 0, movedCard);
-        if (sourceColumnId === 0) {
-          setLeftColumn(newSourceColumn);
-        } else {
-          setRightColumn(newSourceColumn);
-        }
-        
-        if (targetColumnId === 0) {
-          setLeftColumn(newTargetColumn);
-        } else {
-          setRightColumn(newTargetColumn);
-        }
-      }
+    updatePointerTarget(e.clientX, e.clientY);
+  };
+
+  const handleCardPointerUp = (e: React.PointerEvent) => {
+    const press = pressRef.current;
+    if (!press || press.pointerId !== e.pointerId) return;
+
+    clearLongPress();
+    pressRef.current = null;
+    if (!press.dragging) {
+      handleCardClick(e, press.card, press.from.columnId);
+      return;
     }
 
+    const { draggedFrom, dropTarget, draggedCard, draggedCardIds } = dragState;
+    queueLanding(draggedCardIds, releasePoint(dragState.grabOffset));
+    if (rejection) {
+      // The cards stay where they were; the landing above flies them back there.
+      setErrorMessage(`Can't drop here. ${rejection}`);
+      setAnnouncement(`Drop refused. ${rejection}`);
+    } else if (dropTarget && draggedCard && draggedFrom && draggedCardIds.length > 1) {
+      record(
+        `${draggedCardIds.length} cards moved to ${slotLabel(dropTarget.columnId, batchDropIndex(columns, draggedCardIds, dropTarget))}` +
+          describeLaneMove(draggedCardIds, dropTarget),
+        prev => intoLane(moveCards(prev, draggedCardIds, dropTarget), draggedCardIds, dropTarget)
+      );
+      setAnnouncement(`${draggedCardIds.length} cards dropped ${describeBatchPosition(draggedCardIds, dropTarget)}.`);
+    } else if (dropTarget && draggedCard && draggedFrom) {
+      dropCard(draggedCard, draggedFrom, dropTarget);
+      setAnnouncement(`${cardName(draggedCard)} dropped ${describePosition(draggedFrom, dropTarget)}.`);
+    }
+
+    setDragState(idleDragState);
+  };
+
+  const handleCardPointerCancel = (e: React.PointerEvent) => {
+    const press = pressRef.current;
+    if (!press || press.pointerId !== e.pointerId) return;
+
+    clearLongPress();
+    pressRef.current = null;
+    if (press.dragging) {
+      queueLanding(dragState.draggedCardIds, releasePoint(dragState.grabOffset));
+      setDragState(idleDragState);
+      setAnnouncement('Move cancelled.');
+    }
+  };
+
+  const cardName = (card: Card): string => `Card “${card.title}”`;
+
+  // "in Done, position 2 of 5", counted as the column will look once the card lands.
+  const describePosition = (from: CardPosition, to: CardPosition): string => {
+    const column = columns.find(candidate => candidate.id === to.columnId);
+    const total = (column?.cards.length ?? 0) + (from.columnId === to.columnId ? 0 : 1);
+    return `in ${column?.title ?? 'column'}, position ${dropPosition(from, to) + 1} of ${total}`;
+  };
+
+  // "Done #3": a column and a 1-based position in it, as the activity log writes them.
+  const slotLabel = (columnId: number, index: number): string =>
+    `${columns.find(column => column.id === columnId)?.title ?? 'column'} #${index + 1}`;
+
+  const describeMove = (card: Card, from: CardPosition, to: CardPosition): string =>
+    `${cardName(card)} moved from ${slotLabel(from.columnId, from.index)} to ${slotLabel(to.columnId, dropPosition(from, to))}`;
+
+  const laneTitle = (lane: string | null): string | undefined => lanes?.find(candidate => candidate.key === lane)?.title;
+
+  // Dropping cards into another swimlane also sets the lane's field on them.
+  const intoLane = (prev: Column[], cardIds: number[], target: DropTarget): Column[] =>
+    laneField && target.lane !== null ? moveToLane(prev, cardIds, laneField, target.lane) : prev;
+
+  const describeLaneMove = (cardIds: number[], target: DropTarget): string => {
+    if (!laneField || target.lane === null) return '';
+    const changing = cardsInBoardOrder(columns, cardIds).some(card => laneOf(card, laneField) !== target.lane);
+    return changing ? ` and ${describeLaneChange(laneField, target.lane)}` : '';
+  };
+
+  const dropCard = (card: Card, from: CardPosition, to: DropTarget) => {
+    record(
+      describeMove(card, from, to) + describeLaneMove([card.id], to),
+      prev => intoLane(moveCard(prev, card.id, to), [card.id], to)
+    );
+  };
+
+  const describeBatchPosition = (cardIds: number[], to: CardPosition): string => {
+    const column = columns.find(candidate => candidate.id === to.columnId);
+    const staying = column ? column.cards.filter(existing => !cardIds.includes(existing.id)).length : 0;
+    const first = batchDropIndex(columns, cardIds, to) + 1;
+    return `in ${column?.title ?? 'column'}, positions ${first} to ${first + cardIds.length - 1} of ${staying + cardIds.length}`;
+  };
+
+  const pickUpCard = (e: React.KeyboardEvent, card: Card, columnId: number, index: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    $dragPointer.set({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
     setDragState({
-      isDragging: false,
-      draggedCard: null,
-      draggedFrom: null,
-      dropTarget: null,
-      mousePosition: { x: 0, y: 0 }
+      isDragging: true,
+      draggedCard: card,
+      draggedCardIds: [card.id],
+      placeholderHeight: rect.height,
+      draggedFrom: { columnId, index },
+      dropTarget: { columnId, index, lane: laneFor(card) },
+      keyboard: true,
+      grabOffset: { x: rect.width / 2, y: rect.height / 2 },
+      previewWidth: rect.width
     });
+    setAnnouncement(
+      `${cardName(card)} picked up, ${describePosition({ columnId, index }, { columnId, index })}. ` +
+      'Use the arrow keys to move it, Space to drop it and Escape to cancel.'
+    );
+  };
+
+  const cancelKeyboardDrag = () => {
+    if (dragState.draggedCard) {
+      setAnnouncement(`Move cancelled. ${cardName(dragState.draggedCard)} returned to where it was.`);
+    }
+    setDragState(idleDragState);
+  };
+
+  const dropKeyboardCard = () => {
+    const { draggedFrom, dropTarget, draggedCard } = dragState;
+    // A refused keyboard drop keeps the card in hand, so another slot can be picked.
+    if (rejection) {
+      setAnnouncement(`Drop refused. ${rejection}`);
+      return;
+    }
+    if (draggedFrom && dropTarget && draggedCard) {
+      refocusCardIdRef.current = draggedCard.id;
+      dropCard(draggedCard, draggedFrom, dropTarget);
+      setAnnouncement(`${cardName(draggedCard)} dropped ${describePosition(draggedFrom, dropTarget)}.`);
+    }
+    setDragState(idleDragState);
+  };
+
+  // Up and down step through the slots of a list and on into the lanes above and below it; left and
+  // right jump to the same lane in the neighbouring column. Slots next to hidden cards are skipped.
+  const moveKeyboardTarget = (key: string) => {
+    const { draggedFrom, dropTarget, draggedCard } = dragState;
+    if (!draggedFrom || !dropTarget || !draggedCard) return;
+
+    const laneKeys: (string | null)[] = lanes ? lanes.map(lane => lane.key) : [null];
+    const columnIndex = columns.findIndex(column => column.id === dropTarget.columnId);
+    // The cards the carried one would land between, in the list it is over.
+    const othersIn = (column: Column, lane: string | null) =>
+      shownIn(column.id, lane).filter(card => card.id !== draggedCard.id);
+
+    let target = columns[columnIndex];
+    let laneIndex = laneKeys.indexOf(dropTarget.lane);
+    const others = othersIn(target, dropTarget.lane);
+    let position = shownSlot(columnPositions(target.cards), others, dropTarget.index);
+
+    if (key === 'ArrowUp') position -= 1;
+    if (key === 'ArrowDown') position += 1;
+    if (key === 'ArrowLeft') target = columns[columnIndex - 1] ?? target;
+    if (key === 'ArrowRight') target = columns[columnIndex + 1] ?? target;
+
+    if (position < 0 && laneIndex > 0) {
+      laneIndex -= 1;
+      position = Infinity;
+    } else if (position > others.length && laneIndex < laneKeys.length - 1) {
+      laneIndex += 1;
+      position = 0;
+    }
+
+    const lane = laneKeys[laneIndex];
+    const landing = othersIn(target, lane);
+    position = Math.max(0, Math.min(landing.length, position));
+
+    const next = { columnId: target.id, index: columnSlot(columnPositions(target.cards), landing, position), lane };
+    if (sameTarget(next, dropTarget)) return;
+
+    setDragState(prev => ({ ...prev, dropTarget: next }));
+    const refusal = dropRejection(columns, dragState.draggedCardIds, next);
+    const inLane = lane === null ? '' : `, ${laneTitle(lane)} lane`;
+    setAnnouncement(
+      `${cardName(draggedCard)} moved ${describePosition(draggedFrom, next)}${inLane}.${refusal ? ` Can't drop here: ${refusal}` : ''}`
+    );
+  };
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, card: Card, columnId: number, index: number) => {
+    // Keys typed into the inline title editor or the card's own buttons are theirs.
+    if (e.target !== e.currentTarget) return;
+
+    const carrying = dragState.keyboard && dragState.draggedCard?.id === card.id;
+
+    if (e.key === ' ' || (carrying && e.key === 'Enter')) {
+      e.preventDefault();
+      if (carrying) dropKeyboardCard();
+      else if (!dragState.isDragging) pickUpCard(e, card, columnId, index);
+    } else if (carrying && e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      moveKeyboardTarget(e.key);
+    } else if (carrying && e.key === 'Escape') {
+      e.preventDefault();
+      cancelKeyboardDrag();
+    }
+  };
+
+  const handleColumnDragStart = (e: React.DragEvent, columnId: number) => {
+    setColumnDrag({ columnId, dropIndex: null });
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', '');
   };
 
-  const handleDragOver = (e: React.DragEvent, columnId: number, index: number) => {
+  // Drops the dragged column before or after the hovered one, depending on which half is under the pointer.
+  const handleColumnDragOver = (e: React.DragEvent, index: number) => {
+    if (!columnDrag) return;
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
-    
-    if (dragState.isDragging) {
-      setDragState(prev => ({
-        ...prev,
-        dropTarget: { columnId, index },
-        mousePosition: { x: e.clientX, y: e.clientY }
-      }));
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dropIndex = e.clientX < rect.left + rect.width / 2 ? index : index + 1;
+    if (dropIndex !== columnDrag.dropIndex) {
+      setColumnDrag({ ...columnDrag, dropIndex });
     }
   };
 
+  const handleColumnDragEnd = () => {
+    if (columnDrag && columnDrag.dropIndex !== null) {
+      const { columnId, dropIndex } = columnDrag;
+      const from = columns.findIndex(column => column.id === columnId);
+      record(
+        `Column “${columns[from]?.title}” moved`,
+        prev => moveColumn(prev, prev.findIndex(column => column.id === columnId), dropIndex)
+      );
+    }
+    setColumnDrag(null);
+  };
 
-  const isDropTarget = (columnId: number, index: number): boolean => {
-    return dragState.isDragging && 
-           dragState.dropTarget?.columnId === columnId && 
-           dragState.dropTarget?.index === index;
+  const handleAddColumn = () => {
+    const title = `Column ${columns.length + 1}`;
+    record(`Column “${title}” added`, prev => addColumn(prev, title));
+  };
+
+  const commitRename = () => {
+    if (editingColumn) {
+      const title = editingColumn.title.trim();
+      const previous = columns.find(column => column.id === editingColumn.id)?.title;
+      if (title && title !== previous) {
+        record(`Column “${previous}” renamed to “${title}”`, prev => renameColumn(prev, editingColumn.id, title));
+      }
+    }
+    setEditingColumn(null);
+  };
+
+  const handleDeleteColumn = (column: Column) => {
+    // An empty column has nothing to ask about.
+    if (column.cards.length === 0) {
+      record(`Column “${column.title}” deleted`, prev => removeColumn(prev, column.id, { action: 'delete' }));
+    } else {
+      setPendingDeleteId(column.id);
+    }
+  };
+
+  const confirmDeleteColumn = (disposition: CardDisposition) => {
+    const column = columns.find(candidate => candidate.id === pendingDeleteId);
+    if (column) {
+      const target = disposition.action === 'move'
+        ? columns.find(candidate => candidate.id === disposition.targetColumnId)
+        : undefined;
+      record(
+        target
+          ? `Column “${column.title}” deleted, its cards moved to ${target.title}`
+          : `Column “${column.title}” deleted with ${column.cards.length} cards`,
+        prev => removeColumn(prev, column.id, disposition)
+      );
+    }
+    setPendingDeleteId(null);
   };
 
   const isBeingDragged = (card: Card): boolean => {
-    return dragState.isDragging && dragState.draggedCard?.id === card.id;
+    return dragState.isDragging && dragState.draggedCardIds.includes(card.id);
   };
 
-  const renderColumn = (cards: Card[], columnId: number) => {
-    const items: React.ReactElement[] = [];
-    
-    // For empty columns, only show drop zone if it's the target and at index 0
-    if (cards.length === 0) {
-      if (isDropTarget(columnId, 0) && dragState.isDragging) {
-        items.push(
-          <div 
-            key="empty-drop-zone"
-            className="w-full bg-blue-200 border-2 border-dashed border-blue-400 rounded-lg transition-all duration-200 ease-in-out mb-3 flex items-center justify-center opacity-80"
-            style={{ height: `${dragState.draggedCard?.height || 100}px` }}
-          >
-          </div>
-        );
-      }
+  const renderColumnHeader = (column: Column) => {
+    if (editingColumn?.id === column.id) {
       return (
-        <div 
-          className="flex-1 bg-white rounded-xl border-2 border-dashed border-gray-300 p-4 min-h-96 transition-all duration-200"
-          onDragOver={(e) => {
-            e.preventDefault();
-            handleDragOver(e, columnId, 0);
+        <input
+          autoFocus
+          aria-label="Column name"
+          className="w-full px-2 py-1 rounded-lg border border-blue-400 text-lg font-semibold"
+          value={editingColumn.title}
+          onChange={(e) => setEditingColumn({ id: column.id, title: e.target.value })}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setEditingColumn(null);
           }}
-        >
-          {items}
-        </div>
+        />
       );
     }
 
-    if (isDropTarget(columnId, 0)) {
-      items.push(
-        <div 
-          key="drop-zone-0"
-          className="w-full bg-blue-200 border-2 border-dashed border-blue-400 rounded-lg transition-all duration-200 ease-in-out mb-3 flex items-center justify-center opacity-80"
-          style={{ height: `${dragState.draggedCard?.height || 100}px` }}
+    return (
+      <div
+        draggable
+        onDragStart={(e) => handleColumnDragStart(e, column.id)}
+        onDragEnd={handleColumnDragEnd}
+        className="flex items-center gap-2 px-2 py-1 cursor-grab"
+      >
+        <h2
+          className="flex-1 text-lg font-semibold truncate"
+          onDoubleClick={() => setEditingColumn({ id: column.id, title: column.title })}
         >
-          <span className="text-blue-600 font-medium">Drop here</span>
-        </div>
-      );
-    }
-
-    cards.forEach((card, index) => {
-      items.push(
-        <div
-          key={`card-${card.id}`}
-          draggable
-          onDragStart={(e) => handleDragStart(e, card, columnId, index)}
-          onDragEnd={handleDragEnd}
-          className={`${card.color} rounded-lg border border-gray-300 flex items-center justify-center text-xl font-semibold cursor-move hover:shadow-md transition-all duration-200 mb-3 ${
-            isBeingDragged(card) ? 'opacity-30 transform scale-95' : ''
-          }`}
-          style={{ height: `${card.height}px` }}
+          {column.title}
+        </h2>
+        <span
+          className={`text-sm ${overWipLimit(column) ? 'px-1.5 rounded bg-red-100 text-red-700 font-semibold' : 'text-gray-500'}`}
+          title={column.wipLimit === null ? undefined : `Work-in-progress limit: ${column.wipLimit}`}
         >
-          {card.id}
-        </div>
-      );
+          {column.wipLimit === null ? column.cards.length : `${column.cards.length} / ${column.wipLimit}`}
+        </span>
+        <button
+          className="px-2 py-0.5 rounded text-sm text-gray-600 hover:bg-gray-200"
+          aria-label={`Rules for column ${column.title}`}
+          onClick={() => setRulesColumnId(column.id)}
+        >
+          Rules
+        </button>
+        <button
+          className="px-2 py-0.5 rounded text-sm text-gray-600 hover:bg-gray-200"
+          onClick={() => setEditingColumn({ id: column.id, title: column.title })}
+        >
+          Rename
+        </button>
+        <button
+          className="px-2 py-0.5 rounded text-sm text-red-600 hover:bg-red-100"
+          aria-label={`Delete column ${column.title}`}
+          onClick={() => handleDeleteColumn(column)}
+        >
+          Delete
+        </button>
+      </div>
+    );
+  };
 
-      if (isDropTarget(columnId, index + 1)) {
-        items.push(
-          <div 
-            key={`drop-zone-${index + 1}`}
-            className="w-full bg-blue-200 border-2 border-dashed border-blue-400 rounded-lg transition-all duration-200 ease-in-out mb-3 flex items-center justify-center opacity-80"
-            style={{ height: `${dragState.draggedCard?.height || 100}px` }}
-          >
-            <span className="text-blue-600 font-medium">Drop here</span>
-          </div>
-        );
-      }
-    });
+  const renderColumnDropIndicator = (index: number) => (
+    columnDrag?.dropIndex === index && (
+      <div key={`column-drop-${index}`} className="w-1 shrink-0 rounded-full bg-blue-400" />
+    )
+  );
+
+  // Why the slot under the dragged cards would refuse them; shown in the placeholder while dragging.
+  const rejection = dragState.isDragging && dragState.dropTarget
+    ? dropRejection(columns, dragState.draggedCardIds, dragState.dropTarget)
+    : null;
+
+  const dropLabel = dragState.draggedCardIds.length > 1 ? `Drop ${dragState.draggedCardIds.length} cards here` : 'Drop here';
+
+  const cardHandlers: CardHandlers = {
+    pointerDown: handleCardPointerDown,
+    pointerMove: handleCardPointerMove,
+    pointerUp: handleCardPointerUp,
+    pointerCancel: handleCardPointerCancel,
+    keyDown: handleCardKeyDown,
+    blur: (e, card) => {
+      if (e.target === e.currentTarget && dragState.keyboard && isBeingDragged(card)) cancelKeyboardDrag();
+    },
+    contextMenu: (e) => {
+      // A long press would otherwise open the touch context menu over the card being lifted.
+      if (pressRef.current?.pointerType === 'touch') e.preventDefault();
+    },
+    startEdit: (card) => setEditingCardId(card.id),
+    rename: (card, title) => {
+      record(`Card “${card.title}” renamed to “${title}”`, prev => updateCard(prev, card.id, { title }));
+      setEditingCardId(null);
+    },
+    cancelEdit: () => setEditingCardId(null),
+    open: (card) => setCardDialog({ cardId: card.id }),
+    remove: (card) => record(`Card “${card.title}” deleted`, prev => deleteCard(prev, card.id))
+  };
+
+  // The lists are memoized and call through this ref, so new handlers never re-render them.
+  const cardHandlersRef = useRef(cardHandlers);
+  useLayoutEffect(() => {
+    cardHandlersRef.current = cardHandlers;
+  });
+
+  const renderCardList = (column: Column, lane: string | null) => {
+    const { dropTarget } = dragState;
+    const targeted = dragState.isDragging && dropTarget?.columnId === column.id && dropTarget.lane === lane;
 
     return (
-      <div 
-        className="flex-1 bg-white rounded-xl border-2 border-dashed border-gray-300 p-4 min-h-96 transition-all duration-200"
-        onDragOver={(e) => {
-          e.preventDefault();
-          
-          const rect = e.currentTarget.getBoundingClientRect();
-          const y = e.clientY - rect.top;
-          const cardElements = e.currentTarget.querySelectorAll('[draggable="true"]');
-          
-          let targetIndex = cards.length; 
-          
-          cardElements.forEach((element, index) => {
-            const cardRect = element.getBoundingClientRect();
-            const cardY = cardRect.top - rect.top + cardRect.height / 2;
-            
-            if (y < cardY && targetIndex === cards.length) {
-              targetIndex = index;
-            }
-          });
-          
-          handleDragOver(e, columnId, targetIndex);
-        }}
-      >
-        {items}
-      </div>
+      <CardList
+        columnId={column.id}
+        lane={lane}
+        columnCards={column.cards}
+        cards={shownIn(column.id, lane)}
+        dropIndex={targeted ? dropTarget.index : null}
+        placeholderHeight={dragState.placeholderHeight}
+        dropLabel={rejection ?? dropLabel}
+        dropRejected={rejection !== null}
+        draggedCardIds={dragState.draggedCardIds}
+        selectedCardIds={selectedCardIds}
+        editingCardId={editingCardId}
+        revealDropSlot={dragState.keyboard}
+        handlers={cardHandlersRef}
+        registry={listsRef}
+      />
     );
   };
 
+  const renderAddCard = (column: Column, lane: string | null) => (
+    <button
+      className={`rounded-lg text-left text-gray-600 hover:bg-white ${lane === null ? 'px-3 py-2' : 'px-2 py-1 text-sm'}`}
+      onClick={() => setCardDialog({ columnId: column.id, lane })}
+    >
+      + Add card
+    </button>
+  );
+
+  const previewStack = cardsInBoardOrder(columns, dragState.draggedCardIds)
+    .filter(card => card.id !== dragState.draggedCard?.id)
+    .slice(0, 2)
+    .reverse();
+
+  const importBoard = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseBoard(await file.text());
+      record(`Imported ${file.name}`, () => imported);
+      setSelectedCardIds([]);
+      setEditingCardId(null);
+      setEditingColumn(null);
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const pendingDeleteColumn = columns.find(column => column.id === pendingDeleteId);
+  const rulesColumn = columns.find(column => column.id === rulesColumnId);
+  const cardCount = columns.reduce((count, column) => count + column.cards.length, 0);
+  // Lanes cover every value of their field, so the lists between them show each matching card once.
+  const shownCount = [...shownCards.values()].reduce((count, cards) => count + cards.length, 0);
+  const editedCard = cardDialog && 'cardId' in cardDialog ? findCard(columns, cardDialog.cardId) : undefined;
+
+  const saveCardDialog = (draft: CardDraft) => {
+    if (cardDialog && 'cardId' in cardDialog) {
+      record(`Card “${draft.title}” edited`, prev => updateCard(prev, cardDialog.cardId, draft));
+    } else if (cardDialog) {
+      const column = columns.find(candidate => candidate.id === cardDialog.columnId);
+      record(`Card “${draft.title}” created in ${column?.title ?? 'a column'}`, prev => addCard(prev, cardDialog.columnId, draft));
+    }
+    setCardDialog(null);
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 p-8">
-      <div className="max-w-6xl mx-auto">
-        <div className="flex gap-6">
-          {renderColumn(leftColumn, 0)}
-          {renderColumn(rightColumn, 1)}
+      <p id="card-drag-help" className="sr-only">
+        Press Space to pick up a card. Use the arrow keys to move it within and across columns,
+        and up or down into the neighbouring swimlane, Space to drop it and Escape to cancel.
+      </p>
+      <div className="sr-only" aria-live="assertive" aria-atomic="true">
+        {announcement}
+      </div>
+
+      <div className="flex gap-6 items-start">
+        <div ref={boardRef} className="flex-1 min-w-0 max-w-6xl mx-auto">
+          <div className="flex items-center gap-2 mb-4">
+            <button
+              className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-40"
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              onClick={undo}
+            >
+              Undo
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-40"
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              onClick={redo}
+            >
+              Redo
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50"
+              onClick={() => downloadFile(serializeBoard(columns), 'board.json', 'application/json')}
+            >
+              Export JSON
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={importBoard}
+            />
+            <span role="status" className="ml-auto text-sm text-gray-500">
+              {SYNC_LABELS[sync.status]}
+            </span>
+          </div>
+
+          {errorMessage && (
+            <div
+              role="alert"
+              className="flex items-center gap-3 mb-4 px-4 py-2 rounded-md bg-red-50 border border-red-300 text-sm text-red-700"
+            >
+              <span className="flex-1">{errorMessage}</span>
+              <button className="font-semibold" onClick={() => setErrorMessage(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+
+          <FilterBar
+            filter={filter}
+            onFilterChange={setFilter}
+            laneField={laneField}
+            onLaneFieldChange={setLaneField}
+            labels={labels}
+            assignees={assignees}
+            shownCount={shownCount}
+            totalCount={cardCount}
+          />
+
+          {lanes ? (
+            <div ref={boardScrollerRef} className="overflow-auto max-h-[calc(100vh-16rem)] pb-2">
+              <div
+                className="grid gap-x-6 gap-y-2"
+                style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(16rem, 1fr)) auto` }}
+              >
+                {columns.map((column, index) => (
+                  <div
+                    key={column.id}
+                    className={`sticky top-0 z-10 bg-gray-100 transition-opacity duration-200 ${
+                      columnDrag?.columnId === column.id ? 'opacity-40' : ''
+                    } ${columnDrag?.dropIndex === index ? 'border-l-4 border-blue-400' : ''} ${
+                      columnDrag?.dropIndex === columns.length && index === columns.length - 1 ? 'border-r-4 border-blue-400' : ''
+                    }`}
+                    onDragOver={(e) => handleColumnDragOver(e, index)}
+                  >
+                    {renderColumnHeader(column)}
+                  </div>
+                ))}
+                <button
+                  className="self-start w-40 px-4 py-2 rounded-xl border-2 border-dashed border-gray-300 text-gray-600 hover:bg-white"
+                  onClick={handleAddColumn}
+                >
+                  + Add column
+                </button>
+
+                {lanes.map(lane => (
+                  <React.Fragment key={lane.key}>
+                    <h3 className="col-span-full mt-3 px-2 text-sm font-semibold text-gray-700 border-b border-gray-300">
+                      {lane.title}
+                    </h3>
+                    {columns.map((column, index) => (
+                      <div
+                        key={column.id}
+                        className={`flex flex-col gap-1 transition-opacity duration-200 ${
+                          columnDrag?.columnId === column.id ? 'opacity-40' : ''
+                        }`}
+                        onDragOver={(e) => handleColumnDragOver(e, index)}
+                      >
+                        {renderCardList(column, lane.key)}
+                        {renderAddCard(column, lane.key)}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div ref={boardScrollerRef} className="flex gap-6 overflow-x-auto pb-2">
+              {columns.map((column, index) => (
+                <React.Fragment key={column.id}>
+                  {renderColumnDropIndicator(index)}
+                  <div
+                    className={`flex-1 min-w-64 flex flex-col gap-2 transition-opacity duration-200 ${
+                      columnDrag?.columnId === column.id ? 'opacity-40' : ''
+                    }`}
+                    onDragOver={(e) => handleColumnDragOver(e, index)}
+                  >
+                    {renderColumnHeader(column)}
+                    {renderCardList(column, null)}
+                    {renderAddCard(column, null)}
+                  </div>
+                </React.Fragment>
+              ))}
+              {renderColumnDropIndicator(columns.length)}
+              <button
+                className="shrink-0 self-start w-48 px-4 py-3 rounded-xl border-2 border-dashed border-gray-300 text-gray-600 hover:bg-white"
+                onClick={handleAddColumn}
+              >
+                + Add column
+              </button>
+            </div>
+          )}
         </div>
+
+        <ActivityLog entries={history.entries} index={history.index} onSelect={history.jumpTo} />
       </div>
+
+      <SyncToasts failures={sync.failures} onDismiss={sync.dismissFailure} />
       
-      {dragState.isDragging && (
-        <div 
-          ref={dragOverlayRef}
-          className="fixed inset-0 pointer-events-none z-50"
-          style={{
-            background: `radial-gradient(circle 500px at ${dragState.mousePosition.x}px ${dragState.mousePosition.y}px, rgba(255,255,255,0.1) 0%, rgba(0,0,0,0.3) 70%)`,
-            backdropFilter: 'blur(2px)'
+      {pendingDeleteColumn && (
+        <DeleteColumnDialog
+          column={pendingDeleteColumn}
+          columns={columns}
+          onConfirm={confirmDeleteColumn}
+          onCancel={() => setPendingDeleteId(null)}
+        />
+      )}
+
+      {rulesColumn && (
+        <ColumnRulesDialog
+          column={rulesColumn}
+          otherColumns={columns.filter(other => other.id !== rulesColumn.id)}
+          onSave={(rules) => {
+            const changed = rules.wipLimit !== rulesColumn.wipLimit ||
+              [...rules.rejectsFrom].sort().join() !== [...rulesColumn.rejectsFrom].sort().join();
+            if (changed) {
+              record(`Rules for “${rulesColumn.title}” changed`, prev => updateColumnRules(prev, rulesColumn.id, rules));
+            }
+            setRulesColumnId(null);
+          }}
+          onCancel={() => setRulesColumnId(null)}
+        />
+      )}
+
+      {editedCard && (
+        <CardDialog
+          title="Edit card"
+          submitLabel="Save"
+          initial={editedCard}
+          onSave={saveCardDialog}
+          onDelete={() => {
+            record(`Card “${editedCard.title}” deleted`, prev => deleteCard(prev, editedCard.id));
+            setCardDialog(null);
+          }}
+          onCancel={() => setCardDialog(null)}
+        />
+      )}
+
+      {cardDialog && 'columnId' in cardDialog && (
+        <CardDialog
+          title="New card"
+          submitLabel="Create"
+          initial={{
+            ...emptyCard(CARD_COLORS[cardCount % CARD_COLORS.length]),
+            ...(laneField && cardDialog.lane !== null ? laneChanges(laneField, cardDialog.lane) : {})
           }}
+          onSave={saveCardDialog}
+          onCancel={() => setCardDialog(null)}
+        />
+      )}
+
+      {dragState.isDragging && (
+        <DragLayer
+          previewCard={pointerDragging ? dragState.draggedCard : null}
+          stack={previewStack}
+          count={dragState.draggedCardIds.length}
+          grabOffset={dragState.grabOffset}
+          width={dragState.previewWidth}
         />
       )}
     </div>
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { formatDueDate, isOverdue, labelColor, type Card } from './board';
+
+interface BoardCardProps {
+  card: Card;
+  editing: boolean;
+  onStartEdit: () => void;
+  onRename: (title: string) => void;
+  onCancelEdit: () => void;
+  onOpen: () => void;
+  onDelete: () => void;
+}
+
+// The body of a card. Its height follows the content, so the board measures it rather than storing it.
+const BoardCard: React.FC<BoardCardProps> = ({
+  card,
+  editing,
+  onStartEdit,
+  onRename,
+  onCancelEdit,
+  onOpen,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState(card.title);
+  const overdue = isOverdue(card.dueDate);
+
+  const commit = () => {
+    const title = draft.trim();
+    if (title && title !== card.title) onRename(title);
+    else onCancelEdit();
+  };
+
+  return (
+    <div className="group relative flex flex-col gap-2 p-3">
+      {editing ? (
+        <input
+          autoFocus
+          aria-label="Card title"
+          className="w-full px-2 py-1 rounded border border-blue-400 bg-white font-semibold"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') onCancelEdit();
+          }}
+        />
+      ) : (
+        <h3
+          className="pr-14 font-semibold text-gray-900 break-words"
+          onDoubleClick={() => {
+            setDraft(card.title);
+            onStartEdit();
+          }}
+        >
+          {card.title}
+        </h3>
+      )}
+
+      {card.blocked && (
+        <span className="self-start px-2 py-0.5 rounded bg-red-600 text-white text-xs font-semibold">Blocked</span>
+      )}
+
+      {card.description && (
+        <p className="text-sm text-gray-700 line-clamp-3 whitespace-pre-line">{card.description}</p>
+      )}
+
+      {card.labels.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {card.labels.map(label => (
+            <li key={label} className={`px-2 py-0.5 rounded-full text-xs font-medium ${labelColor(label)}`}>
+              {label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(card.assignee || card.dueDate) && (
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          {card.assignee ? (
+            <span className="flex items-center gap-1">
+              <span
+                aria-hidden="true"
+                className="w-5 h-5 rounded-full bg-gray-700 text-white flex items-center justify-center font-semibold"
+              >
+                {card.assignee.charAt(0).toUpperCase()}
+              </span>
+              {card.assignee}
+            </span>
+          ) : <span />}
+          {card.dueDate && (
+            <time
+              dateTime={card.dueDate}
+              className={`px-1.5 py-0.5 rounded ${overdue ? 'bg-red-100 text-red-700 font-semibold' : 'bg-white/60'}`}
+            >
+              {overdue ? 'Overdue · ' : 'Due '}{formatDueDate(card.dueDate)}
+            </time>
+          )}
+        </div>
+      )}
+
+      <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+        <button
+          className="px-1.5 rounded text-xs text-gray-700 bg-white/70 hover:bg-white"
+          aria-label={`Edit ${card.title}`}
+          onClick={onOpen}
+        >
+          Edit
+        </button>
+        <button
+          className="px-1.5 rounded text-xs text-red-600 bg-white/70 hover:bg-white"
+          aria-label={`Delete ${card.title}`}
+          onClick={onDelete}
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BoardCard;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { CARD_COLORS, colorName, parseLabels, type CardDraft } from './board';
+
+interface CardDialogProps {
+  // Heading and submit label, e.g. "New card" / "Create".
+  title: string;
+  submitLabel: string;
+  initial: CardDraft;
+  onSave: (draft: CardDraft) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+}
+
+const fieldClass = 'w-full border border-gray-300 rounded-lg px-2 py-1.5';
+
+const CardDialog: React.FC<CardDialogProps> = ({ title, submitLabel, initial, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState(initial);
+  const [labelText, setLabelText] = useState(initial.labels.join(', '));
+
+  const update = (changes: Partial<CardDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.title.trim()) return;
+    onSave({
+      ...draft,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      assignee: draft.assignee.trim(),
+      labels: parseLabels(labelText)
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="card-dialog-title"
+        className="w-[28rem] bg-white rounded-xl shadow-xl p-6 flex flex-col gap-3"
+        onSubmit={handleSubmit}
+      >
+        <h2 id="card-dialog-title" className="text-lg font-semibold">{title}</h2>
+
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Title
+          <input
+            autoFocus
+            required
+            className={fieldClass}
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Description
+          <textarea
+            rows={4}
+            className={fieldClass}
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Labels
+          <input
+            placeholder="Comma separated, e.g. bug, design"
+            className={fieldClass}
+            value={labelText}
+            onChange={(e) => setLabelText(e.target.value)}
+          />
+        </label>
+
+        <div className="flex gap-3">
+          <label className="flex-1 flex flex-col gap-1 text-sm font-medium">
+            Assignee
+            <input
+              className={fieldClass}
+              value={draft.assignee}
+              onChange={(e) => update({ assignee: e.target.value })}
+            />
+          </label>
+          <label className="flex-1 flex flex-col gap-1 text-sm font-medium">
+            Due date
+            <input
+              type="date"
+              className={fieldClass}
+              value={draft.dueDate ?? ''}
+              onChange={(e) => update({ dueDate: e.target.value || null })}
+            />
+          </label>
+        </div>
+
+        <fieldset className="flex items-center gap-2 text-sm font-medium">
+          <legend className="sr-only">Color</legend>
+          Color
+          {CARD_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              aria-label={colorName(color)}
+              aria-pressed={draft.color === color}
+              className={`w-6 h-6 rounded-full border border-gray-300 ${color} ${
+                draft.color === color ? 'ring-2 ring-offset-1 ring-gray-800' : ''
+              }`}
+              onClick={() => update({ color })}
+            />
+          ))}
+        </fieldset>
+
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={draft.blocked}
+            onChange={(e) => update({ blocked: e.target.checked })}
+          />
+          Blocked
+          <span className="font-normal text-gray-500">— can be reordered but not moved to another column</span>
+        </label>
+
+        <div className="flex items-center gap-2 pt-2">
+          {onDelete && (
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-lg text-red-600 hover:bg-red-50"
+              onClick={onDelete}
+            >
+              Delete card
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg border border-gray-300 hover:bg-gray-50"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CardDialog;
@@ -0,0 +1,333 @@
+import React, { memo, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { Card } from './board';
+import BoardCard from './BoardCard';
+import { columnPositions, columnSlot, listKey, shownSlot } from './boardView';
+import { currentOffset, LANDING_DURATION, playFrom, prefersReducedMotion, SLIDE_DURATION, takeLanding } from './flip';
+import { computeLayout, ESTIMATED_CARD_HEIGHT, OVERSCAN, slotAt, visibleRange, type ListLayout } from './virtualList';
+
+// The list's `p-4`; layout offsets start inside it.
+const LIST_PADDING = 16;
+
+// Everything a card does is routed through the board, which owns drag, selection and history.
+export interface CardHandlers {
+  pointerDown: (e: React.PointerEvent, card: Card, columnId: number, index: number) => void;
+  pointerMove: (e: React.PointerEvent) => void;
+  pointerUp: (e: React.PointerEvent) => void;
+  pointerCancel: (e: React.PointerEvent) => void;
+  keyDown: (e: React.KeyboardEvent, card: Card, columnId: number, index: number) => void;
+  blur: (e: React.FocusEvent, card: Card) => void;
+  contextMenu: (e: React.MouseEvent) => void;
+  startEdit: (card: Card) => void;
+  rename: (card: Card, title: string) => void;
+  cancelEdit: () => void;
+  open: (card: Card) => void;
+  remove: (card: Card) => void;
+}
+
+// What the board may ask of a mounted list without touching its DOM. Indexes are column indexes.
+export interface ListHandle {
+  dropIndexAt: (clientY: number) => number;
+  revealCard: (cardId: number, focus: boolean) => void;
+}
+
+interface CardListProps {
+  columnId: number;
+  // The swimlane this list is the column's share of, or null when the board has no lanes.
+  lane: string | null;
+  // Every card in the column, and the ones this list shows. Only the shown cards are rendered, but
+  // indexes going in and out of the list are column indexes, so hidden cards keep their places.
+  columnCards: Card[];
+  cards: Card[];
+  // The column slot showing the drop placeholder, or null when the drop target is elsewhere.
+  dropIndex: number | null;
+  placeholderHeight: number;
+  dropLabel: string;
+  // The rules refuse a drop in this slot; `dropLabel` then says why.
+  dropRejected: boolean;
+  draggedCardIds: number[];
+  selectedCardIds: number[];
+  editingCardId: number | null;
+  // Keyboard drags scroll the placeholder into view; pointer drags auto-scroll instead.
+  revealDropSlot: boolean;
+  // Read at event time, so the board can pass fresh handlers without re-rendering every list.
+  handlers: React.RefObject<CardHandlers>;
+  registry: React.RefObject<Map<string, ListHandle>>;
+}
+
+const scrollItemIntoView = (container: HTMLElement, layout: ListLayout, item: number): void => {
+  const top = LIST_PADDING + layout.offsets[item];
+  const bottom = top + layout.heights[item];
+
+  if (top < container.scrollTop + LIST_PADDING) {
+    container.scrollTop = top - LIST_PADDING;
+  } else if (bottom > container.scrollTop + container.clientHeight - LIST_PADDING) {
+    container.scrollTop = bottom - container.clientHeight + LIST_PADDING;
+  }
+};
+
+// A windowed column: only the cards near the visible part are mounted, positioned from measured
+// heights (estimated until a card has been seen). Dragged and focused cards stay mounted wherever
+// they are, so pointer capture and keyboard focus survive scrolling them out of view.
+function CardList({
+  columnId,
+  lane,
+  columnCards,
+  cards,
+  dropIndex,
+  placeholderHeight,
+  dropLabel,
+  dropRejected,
+  draggedCardIds,
+  selectedCardIds,
+  editingCardId,
+  revealDropSlot,
+  handlers,
+  registry
+}: CardListProps): React.ReactElement {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const innerRef = useRef<HTMLDivElement>(null);
+  // Measured card heights by card id; replaced, never mutated, so the layout below can depend on it.
+  const [heights, setHeights] = useState<ReadonlyMap<number, number>>(() => new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [focusRequest, setFocusRequest] = useState<number | null>(null);
+
+  const positions = useMemo(() => columnPositions(columnCards), [columnCards]);
+  // Where the placeholder goes among the shown cards.
+  const dropSlot = useMemo(
+    () => dropIndex === null ? null : shownSlot(positions, cards, dropIndex),
+    [positions, cards, dropIndex]
+  );
+
+  const layout = useMemo(() => {
+    const itemHeights = cards.map(card => heights.get(card.id) ?? ESTIMATED_CARD_HEIGHT);
+    if (dropSlot !== null) itemHeights.splice(dropSlot, 0, placeholderHeight);
+    return computeLayout(itemHeights);
+  }, [cards, dropSlot, placeholderHeight, heights]);
+
+  const latestRef = useRef({ layout, dropSlot, cards, positions });
+  useEffect(() => {
+    latestRef.current = { layout, dropSlot, cards, positions };
+  });
+
+  // Where each mounted item was last laid out, keyed like its React key, for the FLIP animations below.
+  const flipRef = useRef({ cards, dropSlot, tops: new Map<string, number>() });
+
+  // FLIP: items are already at their new `top` when this runs, so each one that moved is played from
+  // its old place (including any slide still in flight) back to the new one. Cards just released by a
+  // drag fly in from the release point instead. Re-measured heights move items without animating.
+  useLayoutEffect(() => {
+    const inner = innerRef.current;
+    if (!inner) return;
+
+    const previous = flipRef.current;
+    const reordered = previous.cards !== cards || previous.dropSlot !== dropSlot;
+    const animate = !prefersReducedMotion();
+    const containerTop = inner.getBoundingClientRect().top;
+    const tops = new Map<string, number>();
+    const slides: { element: HTMLElement; dy: number }[] = [];
+    const landings: { element: HTMLElement; from: { x: number; y: number } }[] = [];
+
+    Array.from(inner.children as HTMLCollectionOf<HTMLElement>).forEach(element => {
+      const key = element.dataset.cardId ?? 'placeholder';
+      const top = parseFloat(element.style.top);
+      const previousTop = previous.tops.get(key);
+      const from = element.dataset.cardId ? takeLanding(Number(element.dataset.cardId)) : undefined;
+      tops.set(key, top);
+
+      if (!animate) return;
+      if (from) {
+        landings.push({ element, from });
+      } else if (reordered && previousTop !== undefined && previousTop !== top) {
+        slides.push({ element, dy: previousTop - top + currentOffset(element, top, containerTop) });
+      }
+    });
+
+    flipRef.current = { cards, dropSlot, tops };
+
+    // Slides were measured above, with their running animations; landings are measured below, without.
+    [...slides, ...landings].forEach(({ element }) => element.getAnimations().forEach(animation => animation.cancel()));
+    slides.forEach(({ element, dy }) => playFrom(element, 0, dy, SLIDE_DURATION));
+    landings.forEach(({ element, from }) => {
+      const rect = element.getBoundingClientRect();
+      playFrom(element, from.x - rect.left, from.y - rect.top, LANDING_DURATION);
+    });
+  });
+
+  const itemOf = (cardIndex: number): number =>
+    dropSlot !== null && cardIndex >= dropSlot ? cardIndex + 1 : cardIndex;
+
+  useEffect(() => {
+    const lists = registry.current;
+    const key = listKey(columnId, lane);
+    lists.set(key, {
+      dropIndexAt: clientY => {
+        const inner = innerRef.current;
+        if (!inner) return 0;
+        const latest = latestRef.current;
+        const slot = slotAt(latest.layout, clientY - inner.getBoundingClientRect().top, latest.dropSlot);
+        return columnSlot(latest.positions, latest.cards, slot);
+      },
+      revealCard: (cardId, focus) => {
+        const container = containerRef.current;
+        const latest = latestRef.current;
+        const cardIndex = latest.cards.findIndex(card => card.id === cardId);
+        if (!container || cardIndex === -1) return;
+
+        const item = latest.dropSlot !== null && cardIndex >= latest.dropSlot ? cardIndex + 1 : cardIndex;
+        scrollItemIntoView(container, latest.layout, item);
+        if (focus) setFocusRequest(cardId);
+      }
+    });
+    return () => {
+      lists.delete(key);
+    };
+  }, [columnId, lane, registry]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const update = () => setViewport({ top: container.scrollTop, height: container.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useEffect(() => {
+    if (focusRequest === null) return;
+    innerRef.current?.querySelector<HTMLElement>(`[data-card-id="${focusRequest}"]`)?.focus({ preventScroll: true });
+    setFocusRequest(null);
+  }, [focusRequest]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!revealDropSlot || dropSlot === null || !container) return;
+    container.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    scrollItemIntoView(container, layout, dropSlot);
+  }, [revealDropSlot, dropSlot, layout]);
+
+  // One observer for every mounted card; a changed height re-lays out the list. Stable, so a card is
+  // observed once while it stays mounted rather than again on every render.
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+
+    observerRef.current ??= new ResizeObserver(entries => {
+      const measured = entries.map(entry => {
+        const target = entry.target as HTMLElement;
+        return [Number(target.dataset.cardId), target.offsetHeight] as const;
+      });
+      setHeights(prev => {
+        const changed = measured.filter(([id, height]) => prev.get(id) !== height);
+        return changed.length === 0 ? prev : new Map([...prev, ...changed]);
+      });
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  const selected = useMemo(() => new Set(selectedCardIds), [selectedCardIds]);
+  const dragged = useMemo(() => new Set(draggedCardIds), [draggedCardIds]);
+
+  const [first, last] = visibleRange(
+    layout,
+    viewport.top - LIST_PADDING - OVERSCAN,
+    viewport.top - LIST_PADDING + viewport.height + OVERSCAN
+  );
+
+  const items = new Set<number>();
+  for (let item = first; item < last; item++) items.add(item);
+  cards.forEach((card, cardIndex) => {
+    if (dragged.has(card.id) || card.id === focusedId || card.id === focusRequest) items.add(itemOf(cardIndex));
+  });
+
+  const rendered = [...items].sort((a, b) => a - b).map(item => {
+    const style: React.CSSProperties = { position: 'absolute', left: 0, right: 0, top: `${layout.offsets[item]}px` };
+
+    if (item === dropSlot) {
+      return (
+        <div
+          key="drop-placeholder"
+          data-drop-placeholder
+          data-drop-rejected={dropRejected || undefined}
+          className={`border-2 border-dashed rounded-lg flex items-center justify-center px-3 text-center opacity-80 ${
+            dropRejected ? 'bg-red-100 border-red-400 cursor-not-allowed' : 'bg-blue-200 border-blue-400'
+          }`}
+          style={{ ...style, height: `${placeholderHeight}px` }}
+        >
+          {dropRejected ? (
+            <span className="text-red-700 text-sm font-medium">{dropLabel}</span>
+          ) : (
+            cards.length > 0 && <span className="text-blue-600 font-medium">{dropLabel}</span>
+          )}
+        </div>
+      );
+    }
+
+    const card = cards[dropSlot !== null && item > dropSlot ? item - 1 : item];
+    const index = positions.get(card.id) ?? 0;
+    const isSelected = selected.has(card.id);
+
+    return (
+      <div
+        key={`card-${card.id}`}
+        ref={measure}
+        data-card-id={card.id}
+        tabIndex={0}
+        role="button"
+        aria-roledescription="draggable card"
+        aria-label={card.title}
+        aria-describedby="card-drag-help"
+        aria-pressed={isSelected}
+        onFocus={(e) => {
+          if (e.target === e.currentTarget) setFocusedId(card.id);
+        }}
+        onKeyDown={(e) => handlers.current.keyDown(e, card, columnId, index)}
+        onBlur={(e) => handlers.current.blur(e, card)}
+        onPointerDown={(e) => handlers.current.pointerDown(e, card, columnId, index)}
+        onPointerMove={(e) => handlers.current.pointerMove(e)}
+        onPointerUp={(e) => handlers.current.pointerUp(e)}
+        onPointerCancel={(e) => handlers.current.pointerCancel(e)}
+        onContextMenu={(e) => handlers.current.contextMenu(e)}
+        className={`${card.color} rounded-lg border border-gray-300 outline-none focus-visible:ring-4 focus-visible:ring-blue-500 cursor-move select-none hover:shadow-md transition-[opacity,transform,box-shadow] duration-200 motion-reduce:transition-none ${
+          dragged.has(card.id) ? 'opacity-30 transform scale-95' : ''
+        } ${isSelected ? 'ring-2 ring-offset-2 ring-blue-600' : ''}`}
+        style={style}
+      >
+        <BoardCard
+          card={card}
+          editing={editingCardId === card.id}
+          onStartEdit={() => handlers.current.startEdit(card)}
+          onRename={(title) => handlers.current.rename(card, title)}
+          onCancelEdit={() => handlers.current.cancelEdit()}
+          onOpen={() => handlers.current.open(card)}
+          onDelete={() => handlers.current.remove(card)}
+        />
+      </div>
+    );
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      data-column-id={columnId}
+      data-lane={lane ?? undefined}
+      className={`flex-1 bg-white rounded-xl border-2 border-dashed border-gray-300 p-4 overflow-y-auto transition-all duration-200 ${
+        lane === null ? 'min-h-96 max-h-[calc(100vh-15rem)]' : 'min-h-28 max-h-96'
+      }`}
+      onScroll={(e) => setViewport({ top: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight })}
+    >
+      <div ref={innerRef} className="relative" style={{ height: `${layout.total}px` }}>
+        {rendered}
+      </div>
+    </div>
+  );
+}
+
+export default memo(CardList);
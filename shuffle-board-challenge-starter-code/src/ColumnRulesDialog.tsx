@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { Column, ColumnRules } from './board';
+
+interface ColumnRulesDialogProps {
+  column: Column;
+  otherColumns: Column[];
+  onSave: (rules: ColumnRules) => void;
+  onCancel: () => void;
+}
+
+const ColumnRulesDialog: React.FC<ColumnRulesDialogProps> = ({ column, otherColumns, onSave, onCancel }) => {
+  // Kept as text so the field can be empty, which means no limit.
+  const [limitText, setLimitText] = useState(column.wipLimit === null ? '' : String(column.wipLimit));
+  const [rejectsFrom, setRejectsFrom] = useState(column.rejectsFrom);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      wipLimit: limitText.trim() ? Math.max(1, Math.floor(Number(limitText))) : null,
+      rejectsFrom
+    });
+  };
+
+  const toggleSource = (columnId: number, accepted: boolean) =>
+    setRejectsFrom(prev => accepted ? prev.filter(id => id !== columnId) : [...prev, columnId]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="column-rules-title"
+        className="w-96 bg-white rounded-xl shadow-xl p-6 flex flex-col gap-4"
+        onSubmit={handleSubmit}
+      >
+        <h2 id="column-rules-title" className="text-lg font-semibold">
+          Rules for “{column.title}”
+        </h2>
+
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Work-in-progress limit
+          <input
+            autoFocus
+            type="number"
+            min={1}
+            step={1}
+            placeholder="No limit"
+            className="w-full border border-gray-300 rounded-lg px-2 py-1.5"
+            value={limitText}
+            onChange={(e) => setLimitText(e.target.value)}
+          />
+          <span className="text-xs font-normal text-gray-500">
+            Drops that would take the column past this many cards are refused.
+          </span>
+        </label>
+
+        {otherColumns.length > 0 && (
+          <fieldset className="flex flex-col gap-1 text-sm">
+            <legend className="font-medium mb-1">Accept cards moved from</legend>
+            {otherColumns.map(other => (
+              <label key={other.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!rejectsFrom.includes(other.id)}
+                  onChange={(e) => toggleSource(other.id, e.target.checked)}
+                />
+                {other.title}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg border border-gray-300 hover:bg-gray-50"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Save rules
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ColumnRulesDialog;
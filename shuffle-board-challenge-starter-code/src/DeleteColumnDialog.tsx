@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { CardDisposition, Column } from './board';
+import { dropRejection } from './rules';
+
+interface DeleteColumnDialogProps {
+  column: Column;
+  columns: Column[];
+  onConfirm: (disposition: CardDisposition) => void;
+  onCancel: () => void;
+}
+
+const DeleteColumnDialog: React.FC<DeleteColumnDialogProps> = ({ column, columns, onConfirm, onCancel }) => {
+  // The cards go in as one move, so a target is offered only if it would take them all: the same rules a
+  // drop there is held to.
+  const cardIds = column.cards.map(card => card.id);
+  const targets = columns
+    .filter(other => other.id !== column.id)
+    .map(other => ({
+      column: other,
+      rejection: dropRejection(columns, cardIds, { columnId: other.id, index: other.cards.length })
+    }));
+  const allowed = targets.filter(target => target.rejection === null);
+  const rejections = [...new Set(targets.flatMap(target => target.rejection ?? []))];
+
+  const [action, setAction] = useState<CardDisposition['action']>(allowed.length > 0 ? 'move' : 'delete');
+  const [targetColumnId, setTargetColumnId] = useState<number | null>(allowed[0]?.column.id ?? null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action === 'delete') {
+      onConfirm({ action: 'delete' });
+    } else if (targetColumnId !== null && allowed.some(target => target.column.id === targetColumnId)) {
+      // The board can change while the dialog is open; a target that now refuses the cards stays unpicked.
+      onConfirm({ action: 'move', targetColumnId });
+    }
+  };
+
+  const cardCount = `${column.cards.length} ${column.cards.length === 1 ? 'card' : 'cards'}`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="delete-column-title"
+        className="w-96 bg-white rounded-xl shadow-xl p-6 flex flex-col gap-4"
+        onSubmit={handleSubmit}
+      >
+        <h2 id="delete-column-title" className="text-lg font-semibold">
+          Delete “{column.title}”?
+        </h2>
+        <p className="text-gray-600">This column holds {cardCount}. What should happen to them?</p>
+
+        <label className={`flex items-center gap-2 ${allowed.length === 0 ? 'opacity-50' : ''}`}>
+          <input
+            type="radio"
+            name="disposition"
+            checked={action === 'move'}
+            disabled={allowed.length === 0}
+            onChange={() => setAction('move')}
+          />
+          Move them to
+          <select
+            className="border border-gray-300 rounded px-2 py-1"
+            value={targetColumnId ?? ''}
+            disabled={allowed.length === 0}
+            aria-describedby={rejections.length > 0 ? 'delete-column-rejections' : undefined}
+            onChange={(e) => {
+              setTargetColumnId(Number(e.target.value));
+              setAction('move');
+            }}
+          >
+            {targets.map(target => (
+              <option key={target.column.id} value={target.column.id} disabled={target.rejection !== null}>
+                {target.column.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        {rejections.length > 0 && (
+          <ul id="delete-column-rejections" className="-mt-2 ml-6 text-sm text-gray-500">
+            {rejections.map(rejection => <li key={rejection}>{rejection}</li>)}
+          </ul>
+        )}
+
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="disposition"
+            checked={action === 'delete'}
+            onChange={() => setAction('delete')}
+          />
+          Delete them with the column
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg border border-gray-300 hover:bg-gray-50"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            autoFocus
+            className="px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700"
+          >
+            Delete column
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DeleteColumnDialog;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useStore } from '@nanostores/react';
+import type { Card } from './board';
+import BoardCard from './BoardCard';
+import { $dragPointer } from './dragPointer';
+
+interface DragLayerProps {
+  // The grabbed card, or null for a keyboard drag, which has no floating preview.
+  previewCard: Card | null;
+  // Other carried cards, deepest first, that peek out from under the grabbed one.
+  stack: Card[];
+  count: number;
+  grabOffset: { x: number; y: number };
+  width: number;
+}
+
+const noop = () => {};
+
+// The spotlight and the floating preview. They subscribe to the pointer store themselves, so a
+// pointer move re-renders this layer and nothing else.
+const DragLayer: React.FC<DragLayerProps> = ({ previewCard, stack, count, grabOffset, width }) => {
+  const pointer = useStore($dragPointer);
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 pointer-events-none z-50"
+        style={{
+          background: `radial-gradient(circle 500px at ${pointer.x}px ${pointer.y}px, rgba(255,255,255,0.1) 0%, rgba(0,0,0,0.3) 70%)`,
+          backdropFilter: 'blur(2px)'
+        }}
+      />
+
+      {previewCard && (
+        <div
+          aria-hidden="true"
+          className="fixed top-0 left-0 z-[60] pointer-events-none"
+          style={{
+            width: `${width}px`,
+            transform: `translate(${pointer.x - grabOffset.x}px, ${pointer.y - grabOffset.y}px)`
+          }}
+        >
+          {stack.map((card, depth) => (
+            <div
+              key={card.id}
+              className={`absolute inset-0 ${card.color} rounded-lg border border-gray-300 shadow-md`}
+              style={{ transform: `translate(${(stack.length - depth) * 6}px, ${(stack.length - depth) * 6}px)` }}
+            />
+          ))}
+          <div className={`relative ${previewCard.color} rounded-lg border border-gray-300 shadow-2xl rotate-2`}>
+            <BoardCard
+              card={previewCard}
+              editing={false}
+              onStartEdit={noop}
+              onRename={noop}
+              onCancelEdit={noop}
+              onOpen={noop}
+              onDelete={noop}
+            />
+          </div>
+          {count > 1 && (
+            <span className="absolute -top-3 -right-3 min-w-7 h-7 px-2 rounded-full bg-blue-600 text-white text-sm font-semibold flex items-center justify-center shadow">
+              {count}
+            </span>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DragLayer;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CARD_COLORS, colorName } from './board';
+import { EMPTY_FILTER, isFiltering, type BoardFilter, type LaneField } from './boardView';
+
+interface FilterBarProps {
+  filter: BoardFilter;
+  onFilterChange: (filter: BoardFilter) => void;
+  laneField: LaneField | null;
+  onLaneFieldChange: (field: LaneField | null) => void;
+  labels: string[];
+  assignees: string[];
+  shownCount: number;
+  totalCount: number;
+}
+
+const selectClass = 'border border-gray-300 rounded-lg px-2 py-1.5 bg-white text-sm';
+
+// Select values are strings, so "any" is the empty value and "unassigned" needs a token of its own.
+const ANY = '';
+const UNASSIGNED = '\u0000unassigned';
+
+const FilterBar: React.FC<FilterBarProps> = ({
+  filter,
+  onFilterChange,
+  laneField,
+  onLaneFieldChange,
+  labels,
+  assignees,
+  shownCount,
+  totalCount
+}) => {
+  const update = (changes: Partial<BoardFilter>) => onFilterChange({ ...filter, ...changes });
+
+  return (
+    <div role="search" className="flex flex-wrap items-center gap-2 mb-4">
+      <input
+        type="search"
+        aria-label="Search cards"
+        placeholder="Search cards…"
+        className="w-56 border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+        value={filter.text}
+        onChange={(e) => update({ text: e.target.value })}
+      />
+
+      <select
+        aria-label="Label"
+        className={selectClass}
+        value={filter.label ?? ANY}
+        onChange={(e) => update({ label: e.target.value === ANY ? null : e.target.value })}
+      >
+        <option value={ANY}>Any label</option>
+        {labels.map(label => <option key={label} value={label}>{label}</option>)}
+      </select>
+
+      <select
+        aria-label="Assignee"
+        className={selectClass}
+        value={filter.assignee === null ? ANY : filter.assignee || UNASSIGNED}
+        onChange={(e) => {
+          const value = e.target.value;
+          update({ assignee: value === ANY ? null : value === UNASSIGNED ? '' : value });
+        }}
+      >
+        <option value={ANY}>Anyone</option>
+        <option value={UNASSIGNED}>Unassigned</option>
+        {assignees.map(assignee => <option key={assignee} value={assignee}>{assignee}</option>)}
+      </select>
+
+      <fieldset className="flex items-center gap-1">
+        <legend className="sr-only">Color</legend>
+        {CARD_COLORS.map(color => (
+          <button
+            key={color}
+            type="button"
+            aria-label={colorName(color)}
+            aria-pressed={filter.color === color}
+            className={`w-6 h-6 rounded-full border border-gray-300 ${color} ${
+              filter.color === color ? 'ring-2 ring-offset-1 ring-gray-800' : ''
+            }`}
+            onClick={() => update({ color: filter.color === color ? null : color })}
+          />
+        ))}
+      </fieldset>
+
+      {isFiltering(filter) && (
+        <button
+          className="px-2 py-1 rounded text-sm text-gray-600 hover:bg-gray-200"
+          onClick={() => onFilterChange(EMPTY_FILTER)}
+        >
+          Clear filters
+        </button>
+      )}
+
+      <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+        Swimlanes
+        <select
+          className={selectClass}
+          value={laneField ?? ANY}
+          onChange={(e) => onLaneFieldChange(e.target.value === ANY ? null : e.target.value as LaneField)}
+        >
+          <option value={ANY}>None</option>
+          <option value="assignee">By assignee</option>
+          <option value="color">By color</option>
+        </select>
+      </label>
+
+      <span role="status" className="text-sm text-gray-500">
+        {isFiltering(filter) ? `Showing ${shownCount} of ${totalCount} cards` : `${totalCount} cards`}
+      </span>
+    </div>
+  );
+};
+
+export default FilterBar;
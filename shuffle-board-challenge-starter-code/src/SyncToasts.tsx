@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import type { SyncFailure } from './useBoardSync';
+
+interface SyncToastsProps {
+  failures: SyncFailure[];
+  onDismiss: (id: number) => void;
+}
+
+// Long enough to read a sentence about what was undone.
+const TOAST_DURATION = 8000;
+
+const Toast: React.FC<{ failure: SyncFailure; onDismiss: (id: number) => void }> = ({ failure, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(() => onDismiss(failure.id), TOAST_DURATION);
+    return () => window.clearTimeout(timer);
+  }, [failure.id, onDismiss]);
+
+  return (
+    <li
+      role="alert"
+      className="flex items-start gap-3 w-80 px-4 py-3 rounded-lg bg-gray-900 text-white text-sm shadow-lg"
+    >
+      <span className="flex-1">{failure.message}</span>
+      <button
+        className="font-semibold text-gray-300 hover:text-white"
+        aria-label="Dismiss"
+        onClick={() => onDismiss(failure.id)}
+      >
+        ×
+      </button>
+    </li>
+  );
+};
+
+const SyncToasts: React.FC<SyncToastsProps> = ({ failures, onDismiss }) => (
+  <ul className="fixed bottom-6 right-6 z-[70] flex flex-col gap-2">
+    {failures.map(failure => <Toast key={failure.id} failure={failure} onDismiss={onDismiss} />)}
+  </ul>
+);
+
+export default SyncToasts;
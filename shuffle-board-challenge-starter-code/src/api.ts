@@ -0,0 +1,71 @@
+import type { Column } from './board';
+import { parseBoard } from './boardFile';
+import type { Mutation } from './sync';
+
+const API_ROOT = '/api';
+
+// A request the server answered with an error, or one that never reached it (status 0).
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const request = async (method: string, path: string, body?: unknown): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_ROOT}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  } catch {
+    throw new ApiError('The server could not be reached.', 0);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    let message = `The server answered ${response.status} ${response.statusText}.`;
+    try {
+      const error: unknown = JSON.parse(text);
+      if (typeof error === 'object' && error !== null && 'error' in error && typeof error.error === 'string') {
+        message = error.error;
+      }
+    } catch {
+      // Not a JSON error body; the status line has to do.
+    }
+    throw new ApiError(message, response.status);
+  }
+  return text;
+};
+
+// The board is validated like an imported file, so a server on an older schema is migrated too.
+export const fetchBoard = async (): Promise<Column[]> => parseBoard(await request('GET', '/board'));
+
+export const sendMutation = async (mutation: Mutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'putColumn': {
+      const { id, ...fields } = mutation.column;
+      await request('PUT', `/columns/${id}`, fields);
+      return;
+    }
+    case 'deleteColumn':
+      await request('DELETE', `/columns/${mutation.columnId}`);
+      return;
+    case 'orderColumns':
+      await request('PUT', '/column-order', { columnIds: mutation.columnIds });
+      return;
+    case 'putCard': {
+      const { id, ...fields } = mutation.card;
+      await request('PUT', `/cards/${id}`, { ...fields, columnId: mutation.columnId });
+      return;
+    }
+    case 'deleteCard':
+      await request('DELETE', `/cards/${mutation.cardId}`);
+      return;
+  }
+};
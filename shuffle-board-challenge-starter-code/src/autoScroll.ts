@@ -0,0 +1,33 @@
+// How close, in pixels, the pointer must come to a scroll container's edge before it starts scrolling.
+export const AUTO_SCROLL_EDGE = 64;
+
+// Pixels per animation frame at the very edge (and beyond it).
+export const AUTO_SCROLL_MAX_SPEED = 20;
+
+// Signed scroll speed along one axis: zero in the middle, rising linearly to the maximum at the edge.
+export const autoScrollSpeed = (position: number, start: number, end: number): number => {
+  const edge = Math.min(AUTO_SCROLL_EDGE, (end - start) / 2);
+
+  if (position < start + edge) {
+    return -AUTO_SCROLL_MAX_SPEED * Math.min(1, (start + edge - position) / edge);
+  }
+  if (position > end - edge) {
+    return AUTO_SCROLL_MAX_SPEED * Math.min(1, (position - (end - edge)) / edge);
+  }
+  return 0;
+};
+
+// Scrolls `element` by `delta` along an axis and reports whether it actually moved.
+export const scrollBy = (element: HTMLElement, axis: 'x' | 'y', delta: number): boolean => {
+  if (delta === 0) return false;
+
+  if (axis === 'x') {
+    const before = element.scrollLeft;
+    element.scrollLeft += delta;
+    return element.scrollLeft !== before;
+  }
+
+  const before = element.scrollTop;
+  element.scrollTop += delta;
+  return element.scrollTop !== before;
+};
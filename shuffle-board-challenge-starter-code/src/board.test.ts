@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { deleteCard, initialColumns, moveCard, type Column } from './board';
+import { diffBoards } from './sync';
+
+describe('moveCard', () => {
+  it('ranks a tied neighbour afresh, so the ranks keep the new order', () => {
+    const [todo, done] = initialColumns;
+    const tied: Column[] = [
+      { ...todo, cards: todo.cards.slice(0, 3).map((card, index) => ({ ...card, rank: ['V', 'V', 'W'][index] })) },
+      done
+    ];
+
+    const moved = moveCard(tied, 5, { columnId: 1, index: 1 });
+    const ranks = moved[0].cards.map(card => card.rank);
+
+    expect(moved[0].cards.map(card => card.id)).toEqual([1, 5, 2, 3]);
+    expect(ranks).toEqual([...ranks].sort());
+    expect(new Set(ranks).size).toBe(ranks.length);
+    expect(diffBoards(tied, moved).map(mutation => mutation.type === 'putCard' && mutation.card.id)).toEqual([5, 2]);
+  });
+
+  it('moves the card by id, even after the cards above it changed, and skips one that is gone', () => {
+    const shifted = deleteCard(initialColumns, 1);
+    const moved = moveCard(shifted, 3, { columnId: 2, index: 0 });
+
+    expect(moved[0].cards.map(card => card.id)).toEqual([2, 4]);
+    expect(moved[1].cards[0].id).toBe(3);
+    expect(moveCard(shifted, 1, { columnId: 2, index: 0 })).toBe(shifted);
+  });
+});
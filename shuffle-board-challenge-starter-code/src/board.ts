@@ -0,0 +1,318 @@
+import { compareRanks, rankBetween, ranksBetween } from './fractionalIndex';
+
+export interface Card {
+  id: number;
+  title: string;
+  description: string;
+  labels: string[];
+  assignee: string;
+  // Calendar date as `YYYY-MM-DD`, or null when the card has no deadline.
+  dueDate: string | null;
+  color: string;
+  // A blocked card can be reordered within its column but not moved out of it.
+  blocked: boolean;
+  // Position in the column as a fractional index. `cards` arrays are always kept in rank order.
+  rank: string;
+}
+
+export type CardDraft = Omit<Card, 'id' | 'rank'>;
+
+export interface Column {
+  id: number;
+  title: string;
+  cards: Card[];
+  // Most cards the column takes by drag and drop, or null for no limit.
+  wipLimit: number | null;
+  // Columns whose cards may not be moved into this one.
+  rejectsFrom: number[];
+}
+
+// The column rules edited together in the column settings.
+export type ColumnRules = Pick<Column, 'wipLimit' | 'rejectsFrom'>;
+
+export interface CardPosition {
+  columnId: number;
+  index: number;
+}
+
+// What happens to a deleted column's cards: dropped with it, or appended to another column.
+export type CardDisposition =
+  | { action: 'delete' }
+  | { action: 'move'; targetColumnId: number };
+
+export const CARD_COLORS = ['bg-purple-200', 'bg-blue-200', 'bg-amber-100', 'bg-green-200', 'bg-rose-200'];
+
+// `bg-purple-200` reads as "purple".
+export const colorName = (color: string): string => color.replace('bg-', '').replace(/-\d+$/, '');
+
+const LABEL_COLORS = [
+  'bg-sky-100 text-sky-800',
+  'bg-emerald-100 text-emerald-800',
+  'bg-orange-100 text-orange-800',
+  'bg-fuchsia-100 text-fuchsia-800',
+  'bg-slate-200 text-slate-800'
+];
+
+const card = (id: number, title: string, color: string, extra: Partial<CardDraft> = {}): Omit<Card, 'rank'> => ({
+  id,
+  title,
+  description: '',
+  labels: [],
+  assignee: '',
+  dueDate: null,
+  color,
+  blocked: false,
+  ...extra
+});
+
+// Gives a column's worth of cards evenly spaced ranks in the order they are listed.
+export const rankCards = <T extends object>(cards: T[]): (T & { rank: string })[] => {
+  const ranks = ranksBetween(null, null, cards.length);
+  return cards.map((existing, index) => ({ ...existing, rank: ranks[index] }));
+};
+
+export const initialColumns: Column[] = [
+  {
+    id: 1,
+    title: 'To do',
+    wipLimit: null,
+    rejectsFrom: [2],
+    cards: rankCards([
+      card(1, 'Sketch the onboarding flow', 'bg-purple-200', {
+        description: 'Cover sign-up, the empty board and the first card.',
+        labels: ['design'],
+        assignee: 'Robin'
+      }),
+      card(2, 'Fix the flaky login test', 'bg-blue-200', { labels: ['bug'], blocked: true }),
+      card(3, 'Write release notes', 'bg-amber-100', { dueDate: '2025-09-30' }),
+      card(4, 'Review the pricing page copy', 'bg-green-200', {
+        description: 'Marketing wants a second pass before launch. Check the plan names match the app.',
+        labels: ['copy', 'launch'],
+        assignee: 'Sam'
+      })
+    ])
+  },
+  {
+    id: 2,
+    title: 'Done',
+    wipLimit: null,
+    rejectsFrom: [],
+    cards: rankCards([
+      card(5, 'Set up CI', 'bg-green-200'),
+      card(6, 'Migrate the database to the new host', 'bg-purple-200', {
+        description: 'Snapshot first, then switch the connection string during the maintenance window.',
+        labels: ['infra'],
+        assignee: 'Alex',
+        dueDate: '2025-08-15'
+      }),
+      card(7, 'Add dark mode tokens', 'bg-green-200', { labels: ['design'] }),
+      card(8, 'Triage the support inbox', 'bg-amber-100', { assignee: 'Robin' })
+    ])
+  }
+];
+
+export const emptyCard = (color: string): CardDraft => ({
+  title: '',
+  description: '',
+  labels: [],
+  assignee: '',
+  dueDate: null,
+  color,
+  blocked: false
+});
+
+// The same label always gets the same chip color, wherever it appears.
+export const labelColor = (label: string): string => {
+  let hash = 0;
+  for (const char of label) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return LABEL_COLORS[Math.abs(hash) % LABEL_COLORS.length];
+};
+
+export const parseLabels = (text: string): string[] =>
+  [...new Set(text.split(',').map(label => label.trim()).filter(Boolean))];
+
+// Compares calendar dates as strings, which sorts correctly for `YYYY-MM-DD`.
+export const isOverdue = (dueDate: string | null, today: Date = new Date()): boolean => {
+  if (!dueDate) return false;
+  const local = new Date(today.getTime() - today.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+  return dueDate < local;
+};
+
+export const formatDueDate = (dueDate: string): string =>
+  new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const nextCardId = (columns: Column[]): number =>
+  columns.reduce(
+    (highest, column) => column.cards.reduce((top, existing) => Math.max(top, existing.id), highest),
+    0
+  ) + 1;
+
+export const findCard = (columns: Column[], cardId: number): Card | undefined => {
+  for (const column of columns) {
+    const found = column.cards.find(existing => existing.id === cardId);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const addCard = (columns: Column[], columnId: number, draft: CardDraft): Column[] => {
+  const id = nextCardId(columns);
+  return columns.map(column => {
+    if (column.id !== columnId) return column;
+    const rank = rankBetween(column.cards.at(-1)?.rank ?? null, null);
+    return { ...column, cards: [...column.cards, { ...draft, id, rank }] };
+  });
+};
+
+// Ranks `count` cards placed at `start` in an otherwise ranked list to fit between their neighbours.
+// Cards after them whose rank ties with (or sorts before) the card above are ranked afresh too, since
+// nothing fits between equal ranks; those cards then go to the server like the placed ones.
+const rerank = (cards: Card[], start: number, count: number): Card[] => {
+  const before = cards[start - 1]?.rank ?? null;
+  let end = start + count;
+  while (before !== null && end < cards.length && cards[end].rank <= before) end++;
+
+  const ranks = ranksBetween(before, cards[end]?.rank ?? null, end - start);
+  return cards.map((existing, index) =>
+    index >= start && index < end ? { ...existing, rank: ranks[index - start] } : existing
+  );
+};
+
+// Puts a card back into a ranked list where its rank says it belongs.
+export const insertByRank = (cards: Card[], inserted: Card): Card[] => {
+  const index = cards.findIndex(existing => compareRanks(inserted, existing) < 0);
+  return index === -1 ? [...cards, inserted] : [...cards.slice(0, index), inserted, ...cards.slice(index)];
+};
+
+export const updateCard = (columns: Column[], cardId: number, changes: Partial<CardDraft>): Column[] =>
+  columns.map(column =>
+    column.cards.some(existing => existing.id === cardId)
+      ? {
+        ...column,
+        cards: column.cards.map(existing => existing.id === cardId ? { ...existing, ...changes } : existing)
+      }
+      : column
+  );
+
+export const deleteCard = (columns: Column[], cardId: number): Column[] =>
+  columns.map(column =>
+    column.cards.some(existing => existing.id === cardId)
+      ? { ...column, cards: column.cards.filter(existing => existing.id !== cardId) }
+      : column
+  );
+
+export const nextColumnId = (columns: Column[]): number =>
+  columns.reduce((highest, column) => Math.max(highest, column.id), 0) + 1;
+
+export const addColumn = (columns: Column[], title: string): Column[] => [
+  ...columns,
+  { id: nextColumnId(columns), title, cards: [], wipLimit: null, rejectsFrom: [] }
+];
+
+export const renameColumn = (columns: Column[], columnId: number, title: string): Column[] =>
+  columns.map(column => column.id === columnId ? { ...column, title } : column);
+
+export const updateColumnRules = (columns: Column[], columnId: number, rules: ColumnRules): Column[] =>
+  columns.map(column => column.id === columnId ? { ...column, ...rules } : column);
+
+export const removeColumn = (columns: Column[], columnId: number, disposition: CardDisposition): Column[] => {
+  const removed = columns.find(column => column.id === columnId);
+  if (!removed) return columns;
+
+  return columns
+    .filter(column => column.id !== columnId)
+    .map(column => ({
+      ...column,
+      cards: disposition.action === 'move' && column.id === disposition.targetColumnId
+        ? rerank([...column.cards, ...removed.cards], column.cards.length, removed.cards.length)
+        : column.cards,
+      rejectsFrom: column.rejectsFrom.filter(id => id !== columnId)
+    }));
+};
+
+// `to` is an insertion slot in the original order, so dropping a column just after itself is a no-op.
+export const moveColumn = (columns: Column[], from: number, to: number): Column[] => {
+  const adjusted = from < to ? to - 1 : to;
+  if (adjusted === from) return columns;
+
+  const next = [...columns];
+  const [moved] = next.splice(from, 1);
+  next.splice(adjusted, 0, moved);
+  return next;
+};
+
+// The index a card ends up at when dropped into slot `to`; its own slot and the one after it are the same.
+export const dropPosition = (from: CardPosition, to: CardPosition): number =>
+  from.columnId === to.columnId && from.index < to.index ? to.index - 1 : to.index;
+
+// Moves a card between any two columns. `to.index` is an insertion slot in the target column as it
+// looked before the move, matching what the drop zones show while dragging. The card is found by id, so
+// a drop still moves the right one after other changes, and does nothing once the card is gone.
+export const moveCard = (columns: Column[], cardId: number, to: CardPosition): Column[] => {
+  const source = columns.find(column => column.cards.some(existing => existing.id === cardId));
+  if (!source || !columns.some(column => column.id === to.columnId)) return columns;
+
+  const from = { columnId: source.id, index: source.cards.findIndex(existing => existing.id === cardId) };
+  const moved = source.cards[from.index];
+
+  const targetIndex = dropPosition(from, to);
+  if (from.columnId === to.columnId && targetIndex === from.index) return columns;
+
+  return columns.map(column => {
+    if (column.id !== from.columnId && column.id !== to.columnId) return column;
+
+    const cards = column.id === from.columnId
+      ? column.cards.filter((_, index) => index !== from.index)
+      : [...column.cards];
+    if (column.id !== to.columnId) return { ...column, cards };
+    cards.splice(targetIndex, 0, moved);
+    return { ...column, cards: rerank(cards, targetIndex, 1) };
+  });
+};
+
+// The selected cards in board order: column by column, top to bottom. That is the order they land in.
+export const cardsInBoardOrder = (columns: Column[], cardIds: number[]): Card[] => {
+  const ids = new Set(cardIds);
+  return columns.flatMap(column => column.cards.filter(existing => ids.has(existing.id)));
+};
+
+// Where a batch lands in the target column once its own cards have been lifted out. Like `dropPosition`,
+// every moved card above the slot shifts it up by one.
+export const batchDropIndex = (columns: Column[], cardIds: number[], to: CardPosition): number => {
+  const ids = new Set(cardIds);
+  const target = columns.find(column => column.id === to.columnId);
+  const liftedAbove = target ? target.cards.slice(0, to.index).filter(existing => ids.has(existing.id)).length : 0;
+  return to.index - liftedAbove;
+};
+
+// Moves several cards, from any columns, to one slot, keeping their relative board order.
+export const moveCards = (columns: Column[], cardIds: number[], to: CardPosition): Column[] => {
+  const moving = cardsInBoardOrder(columns, cardIds);
+  if (moving.length === 0 || !columns.some(column => column.id === to.columnId)) return columns;
+
+  const ids = new Set(cardIds);
+  const insertAt = batchDropIndex(columns, cardIds, to);
+
+  return columns.map(column => {
+    const remaining = column.cards.filter(existing => !ids.has(existing.id));
+    if (column.id === to.columnId) {
+      remaining.splice(insertAt, 0, ...moving);
+      return { ...column, cards: rerank(remaining, insertAt, moving.length) };
+    }
+    if (remaining.length === column.cards.length) return column;
+    return { ...column, cards: remaining };
+  });
+};
+
+// The cards between two cards of the same column, inclusive, for Shift-click range selection.
+export const cardRange = (columns: Column[], fromId: number, toId: number): number[] | null => {
+  const column = columns.find(candidate =>
+    candidate.cards.some(existing => existing.id === fromId) &&
+    candidate.cards.some(existing => existing.id === toId)
+  );
+  if (!column) return null;
+
+  const from = column.cards.findIndex(existing => existing.id === fromId);
+  const to = column.cards.findIndex(existing => existing.id === toId);
+  return column.cards.slice(Math.min(from, to), Math.max(from, to) + 1).map(existing => existing.id);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { initialColumns, type Card } from './board';
+import { BoardError, parseBoard, serializeBoard } from './boardFile';
+import { ranksBetween } from './fractionalIndex';
+
+// The fields every version has had since cards got titles.
+const version2Card = (id: number) => ({
+  id,
+  title: `Card ${id}`,
+  description: '',
+  labels: [],
+  assignee: '',
+  dueDate: null,
+  color: 'bg-red-200'
+});
+
+const version3Card = (id: number) => ({ ...version2Card(id), blocked: false });
+
+const card = (id: number, rank: string): Card => ({ ...version3Card(id), rank });
+
+// What each old file below reads as today: the cards keep their order, spread over the whole rank range.
+const [firstRank, secondRank] = ranksBetween(null, null, 2);
+const [onlyRank] = ranksBetween(null, null, 1);
+const upgraded = [
+  { id: 1, title: 'To do', cards: [card(1, firstRank), card(2, secondRank)], wipLimit: null, rejectsFrom: [] },
+  { id: 2, title: 'Done', cards: [card(3, onlyRank)], wipLimit: null, rejectsFrom: [] }
+];
+
+describe('parseBoard', () => {
+  it('reads back what it writes', () => {
+    expect(parseBoard(serializeBoard(initialColumns))).toEqual(initialColumns);
+  });
+
+  it('migrates a version 1 file of two bare card lists', () => {
+    const file = {
+      version: 1,
+      leftColumn: [{ id: 1, height: 80, color: 'bg-red-200' }, { id: 2, height: 120, color: 'bg-red-200' }],
+      rightColumn: [{ id: 3, height: 80, color: 'bg-red-200' }]
+    };
+
+    expect(parseBoard(JSON.stringify(file))).toEqual(upgraded);
+  });
+
+  it('migrates a version 2 file, whose cards cannot be blocked yet', () => {
+    const file = {
+      version: 2,
+      columns: [
+        { id: 1, title: 'To do', cards: [version2Card(1), version2Card(2)] },
+        { id: 2, title: 'Done', cards: [version2Card(3)] }
+      ]
+    };
+
+    expect(parseBoard(JSON.stringify(file))).toEqual(upgraded);
+  });
+
+  it('migrates a version 3 file, ranking cards in their stored order', () => {
+    const file = {
+      version: 3,
+      columns: [
+        { id: 1, title: 'To do', cards: [version3Card(1), version3Card(2)], wipLimit: null, rejectsFrom: [] },
+        { id: 2, title: 'Done', cards: [version3Card(3)], wipLimit: null, rejectsFrom: [] }
+      ]
+    };
+
+    expect(parseBoard(JSON.stringify(file))).toEqual(upgraded);
+  });
+
+  it('refuses a version it does not know', () => {
+    const future = () => parseBoard(JSON.stringify({ version: 5, columns: [] }));
+
+    expect(future).toThrow(BoardError);
+    expect(future).toThrow('The board uses schema version 5, but this app reads versions 1 to 4.');
+    expect(() => parseBoard('{}')).toThrow('The board uses schema version undefined');
+  });
+
+  it('names the field that is wrong', () => {
+    const file = JSON.parse(serializeBoard(initialColumns));
+    file.columns[1].cards[0].dueDate = '1 March';
+
+    expect(() => parseBoard(JSON.stringify(file)))
+      .toThrow('columns[1].cards[0].dueDate must be null or a date written as YYYY-MM-DD.');
+    expect(() => parseBoard('{')).toThrow('The file is not valid JSON.');
+  });
+});
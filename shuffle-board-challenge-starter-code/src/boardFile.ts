@@ -0,0 +1,191 @@
+import type { Card, Column } from './board';
+import { compareRanks, isRank, ranksBetween } from './fractionalIndex';
+
+// The board file format: its schema, the migrations from older versions and the validation that
+// every board from outside (an imported file, a saved board, the server) goes through.
+
+export const SCHEMA_VERSION = 4;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface BoardFile {
+  version: number;
+  columns: Column[];
+}
+
+export class BoardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BoardError';
+  }
+}
+
+type RawBoard = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration lifts a file from the version it is keyed by to the next one. They only reshape data;
+// validation happens once, against the current schema, after the last migration has run.
+const MIGRATIONS: Record<number, (data: RawBoard) => RawBoard> = {
+  // Version 1 boards had exactly two lists of bare cards: an id, a pixel height and a color.
+  1: data => {
+    const legacyCards = (value: unknown) =>
+      Array.isArray(value)
+        ? value.map(card => isRecord(card)
+          ? {
+            id: card.id,
+            title: `Card ${String(card.id)}`,
+            description: '',
+            labels: [],
+            assignee: '',
+            dueDate: null,
+            color: card.color
+          }
+          : card)
+        : value;
+
+    return {
+      version: 2,
+      columns: [
+        { id: 1, title: 'To do', cards: legacyCards(data.leftColumn) },
+        { id: 2, title: 'Done', cards: legacyCards(data.rightColumn) }
+      ]
+    };
+  },
+  // Version 3 added WIP limits and transition rules to columns, and the blocked flag to cards.
+  2: data => ({
+    ...data,
+    version: 3,
+    columns: Array.isArray(data.columns)
+      ? data.columns.map(column => isRecord(column)
+        ? {
+          ...column,
+          wipLimit: null,
+          rejectsFrom: [],
+          cards: Array.isArray(column.cards)
+            ? column.cards.map(card => isRecord(card) ? { ...card, blocked: false } : card)
+            : column.cards
+        }
+        : column)
+      : data.columns
+  }),
+  // Version 4 orders cards by a fractional rank instead of their place in the array.
+  3: data => ({
+    ...data,
+    version: 4,
+    columns: Array.isArray(data.columns)
+      ? data.columns.map(column => {
+        if (!isRecord(column) || !Array.isArray(column.cards)) return column;
+        const ranks = ranksBetween(null, null, column.cards.length);
+        return { ...column, cards: column.cards.map((card, index) => isRecord(card) ? { ...card, rank: ranks[index] } : card) };
+      })
+      : data.columns
+  })
+};
+
+const migrate = (data: RawBoard): RawBoard => {
+  let current = data;
+
+  while (current.version !== SCHEMA_VERSION) {
+    const version = current.version;
+    const step = typeof version === 'number' ? MIGRATIONS[version] : undefined;
+    if (!step) {
+      throw new BoardError(
+        `The board uses schema version ${String(version)}, but this app reads versions 1 to ${SCHEMA_VERSION}.`
+      );
+    }
+    current = step(current);
+  }
+
+  return current;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new BoardError(`${path} must be a whole number.`);
+  }
+  return value;
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw new BoardError(`${path} must be a string.`);
+  return value;
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new BoardError(`${path} must be true or false.`);
+  return value;
+};
+
+export const parseCard = (value: unknown, path: string): Card => {
+  if (!isRecord(value)) throw new BoardError(`${path} must be an object.`);
+
+  const title = expectString(value.title, `${path}.title`);
+  if (!title.trim()) throw new BoardError(`${path}.title must not be empty.`);
+  if (!Array.isArray(value.labels)) throw new BoardError(`${path}.labels must be an array.`);
+  const rank = expectString(value.rank, `${path}.rank`);
+  if (!isRank(rank)) throw new BoardError(`${path}.rank must be a fractional index such as "V".`);
+  if (value.dueDate !== null && (typeof value.dueDate !== 'string' || !DATE_PATTERN.test(value.dueDate))) {
+    throw new BoardError(`${path}.dueDate must be null or a date written as YYYY-MM-DD.`);
+  }
+
+  return {
+    id: expectNumber(value.id, `${path}.id`),
+    title,
+    description: expectString(value.description, `${path}.description`),
+    labels: value.labels.map((label, index) => expectString(label, `${path}.labels[${index}]`)),
+    assignee: expectString(value.assignee, `${path}.assignee`),
+    dueDate: value.dueDate,
+    color: expectString(value.color, `${path}.color`),
+    blocked: expectBoolean(value.blocked, `${path}.blocked`),
+    rank
+  };
+};
+
+export const parseColumn = (value: unknown, path: string): Column => {
+  if (!isRecord(value)) throw new BoardError(`${path} must be an object.`);
+  if (!Array.isArray(value.cards)) throw new BoardError(`${path}.cards must be an array.`);
+  if (!Array.isArray(value.rejectsFrom)) throw new BoardError(`${path}.rejectsFrom must be an array.`);
+
+  const wipLimit = value.wipLimit === null ? null : expectNumber(value.wipLimit, `${path}.wipLimit`);
+  if (wipLimit !== null && wipLimit < 1) throw new BoardError(`${path}.wipLimit must be null or at least 1.`);
+
+  return {
+    id: expectNumber(value.id, `${path}.id`),
+    title: expectString(value.title, `${path}.title`),
+    cards: value.cards.map((card, index) => parseCard(card, `${path}.cards[${index}]`)).sort(compareRanks),
+    wipLimit,
+    rejectsFrom: value.rejectsFrom.map((id, index) => expectNumber(id, `${path}.rejectsFrom[${index}]`))
+  };
+};
+
+export const serializeBoard = (columns: Column[]): string => {
+  const file: BoardFile = { version: SCHEMA_VERSION, columns };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses and validates a whole file before returning anything, so a bad import never half-applies.
+export const parseBoard = (text: string): Column[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BoardError('The file is not valid JSON.');
+  }
+
+  if (!isRecord(data)) throw new BoardError('The file does not contain a board.');
+
+  const migrated = migrate(data);
+  if (!Array.isArray(migrated.columns)) throw new BoardError('columns must be an array.');
+
+  const columns = migrated.columns.map((value, index) => parseColumn(value, `columns[${index}]`));
+
+  if (new Set(columns.map(column => column.id)).size !== columns.length) {
+    throw new BoardError('Column ids must be unique.');
+  }
+  const cardIds = columns.flatMap(column => column.cards.map(card => card.id));
+  if (new Set(cardIds).size !== cardIds.length) throw new BoardError('Card ids must be unique.');
+
+  return columns;
+};
@@ -0,0 +1,98 @@
+import { CARD_COLORS, colorName, updateCard, type Card, type CardDraft, type Column } from './board';
+
+// What the filter bar narrows the board down to. A null field matches every card; an empty assignee
+// matches unassigned cards.
+export interface BoardFilter {
+  text: string;
+  label: string | null;
+  assignee: string | null;
+  color: string | null;
+}
+
+export const EMPTY_FILTER: BoardFilter = { text: '', label: null, assignee: null, color: null };
+
+// The card field swimlanes group by. Dropping a card into another lane sets the field to that lane.
+export type LaneField = 'assignee' | 'color';
+
+export interface Lane {
+  key: string;
+  title: string;
+}
+
+export const isFiltering = (filter: BoardFilter): boolean =>
+  filter.text.trim() !== '' || filter.label !== null || filter.assignee !== null || filter.color !== null;
+
+export const matchesFilter = (card: Card, filter: BoardFilter): boolean => {
+  const text = filter.text.trim().toLowerCase();
+
+  return (
+    (!text || `${card.title}\n${card.description}`.toLowerCase().includes(text)) &&
+    (filter.label === null || card.labels.includes(filter.label)) &&
+    (filter.assignee === null || card.assignee === filter.assignee) &&
+    (filter.color === null || card.color === filter.color)
+  );
+};
+
+const distinct = (values: string[]): string[] =>
+  [...new Set(values)].sort((a, b) => a.localeCompare(b));
+
+export const boardLabels = (columns: Column[]): string[] =>
+  distinct(columns.flatMap(column => column.cards.flatMap(card => card.labels)));
+
+export const boardAssignees = (columns: Column[]): string[] =>
+  distinct(columns.flatMap(column => column.cards.map(card => card.assignee)).filter(Boolean));
+
+export const laneOf = (card: Card, field: LaneField): string =>
+  field === 'assignee' ? card.assignee : card.color;
+
+// Every lane a card could be in, so lanes keep their place while cards move between them.
+export const lanesFor = (columns: Column[], field: LaneField): Lane[] => {
+  if (field === 'assignee') {
+    return [
+      ...boardAssignees(columns).map(assignee => ({ key: assignee, title: assignee })),
+      { key: '', title: 'Unassigned' }
+    ];
+  }
+
+  const used = columns.flatMap(column => column.cards.map(card => card.color));
+  return [...new Set([...CARD_COLORS, ...used])].map(color => ({ key: color, title: colorName(color) }));
+};
+
+export const laneChanges = (field: LaneField, lane: string): Partial<CardDraft> =>
+  field === 'assignee' ? { assignee: lane } : { color: lane };
+
+// How a lane change reads in the activity log, e.g. "assigned to Sam".
+export const describeLaneChange = (field: LaneField, lane: string): string => {
+  if (field === 'color') return `recolored ${colorName(lane)}`;
+  return lane ? `assigned to ${lane}` : 'unassigned';
+};
+
+// Puts the cards into `lane`. Cards already there are left alone, so a move within a lane changes nothing.
+export const moveToLane = (columns: Column[], cardIds: number[], field: LaneField, lane: string): Column[] => {
+  const changes = laneChanges(field, lane);
+
+  return cardIds.reduce((current, cardId) => {
+    const card = current.flatMap(column => column.cards).find(existing => existing.id === cardId);
+    return card && laneOf(card, field) !== lane ? updateCard(current, cardId, changes) : current;
+  }, columns);
+};
+
+// Each card list on screen is one column, or one column's share of a lane.
+export const listKey = (columnId: number, lane: string | null): string =>
+  lane === null ? String(columnId) : `${columnId}:${lane}`;
+
+// Where each card sits in its column, for translating slots without scanning the column per card.
+export const columnPositions = (columnCards: Card[]): Map<number, number> =>
+  new Map(columnCards.map((card, index) => [card.id, index]));
+
+// A filtered list shows some of its column's cards. Slots are translated between the two: a slot
+// before a shown card is the slot before it in the column, and the slot after the last shown card
+// is the one right after it there. Hidden cards in between keep their order.
+export const columnSlot = (positions: Map<number, number>, shown: Card[], slot: number): number => {
+  if (slot < shown.length) return positions.get(shown[slot].id) ?? positions.size;
+  if (shown.length > 0) return (positions.get(shown[shown.length - 1].id) ?? positions.size - 1) + 1;
+  return positions.size;
+};
+
+export const shownSlot = (positions: Map<number, number>, shown: Card[], slot: number): number =>
+  shown.filter(card => (positions.get(card.id) ?? 0) < slot).length;
@@ -0,0 +1,10 @@
+import { atom } from 'nanostores';
+
+export interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+// Where a dragged card is, in viewport pixels. Kept outside React state so moving the pointer only
+// re-renders the floating preview and the spotlight, never the columns.
+export const $dragPointer = atom<PointerPosition>({ x: 0, y: 0 });
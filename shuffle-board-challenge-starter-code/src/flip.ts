@@ -0,0 +1,50 @@
+// Cards sliding aside for the placeholder, or into the gap a moved card left.
+export const SLIDE_DURATION = 180;
+
+// A released card flying from where it was let go into its slot, or back to where it came from.
+export const LANDING_DURATION = 250;
+
+const EASING = 'cubic-bezier(0.2, 0, 0, 1)';
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export const prefersReducedMotion = (): boolean =>
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// Top-left corner, in viewport coordinates, each released card should appear to start from. The list
+// that renders the card next claims it; whatever is still unclaimed by the next frame is dropped, so a
+// card scrolled out of view does not fly in much later.
+const landings = new Map<number, ScreenPoint>();
+let clearFrame = 0;
+
+export const queueLanding = (cardIds: number[], from: ScreenPoint): void => {
+  if (prefersReducedMotion()) return;
+
+  cardIds.forEach(cardId => landings.set(cardId, from));
+  cancelAnimationFrame(clearFrame);
+  clearFrame = requestAnimationFrame(() => landings.clear());
+};
+
+export const takeLanding = (cardId: number): ScreenPoint | undefined => {
+  const from = landings.get(cardId);
+  landings.delete(cardId);
+  return from;
+};
+
+// Plays an element from an offset back to where layout put it. Only the transform animates, so the
+// layout the lists hit-test against is already final while the animation runs.
+export const playFrom = (element: HTMLElement, dx: number, dy: number, duration: number): void => {
+  if (dx === 0 && dy === 0) return;
+
+  element.animate(
+    [{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'none' }],
+    { duration, easing: EASING }
+  );
+};
+
+// How far a running animation currently displaces an element from its layout position.
+export const currentOffset = (element: HTMLElement, layoutTop: number, containerTop: number): number =>
+  element.getAnimations().length > 0 ? element.getBoundingClientRect().top - containerTop - layoutTop : 0;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { compareRanks, isRank, rankBetween, ranksBetween } from './fractionalIndex';
+
+describe('rankBetween', () => {
+  it('sorts strictly between its neighbours', () => {
+    const pairs: [string | null, string | null][] = [
+      [null, null],
+      [null, '1'],
+      ['z', null],
+      ['V', 'W'],
+      ['V', 'V1'],
+      ['0001', '0002'],
+      ['Az', 'B']
+    ];
+
+    pairs.forEach(([before, after]) => {
+      const rank = rankBetween(before, after);
+      expect(isRank(rank)).toBe(true);
+      if (before !== null) expect(rank > before).toBe(true);
+      if (after !== null) expect(rank < after).toBe(true);
+    });
+  });
+
+  it('keeps finding room when cards keep landing in the same gap', () => {
+    let before = 'V';
+    const after = 'W';
+    for (let step = 0; step < 200; step++) {
+      const rank = rankBetween(before, after);
+      expect(rank > before && rank < after).toBe(true);
+      before = rank;
+    }
+  });
+
+  it('sorts after `before` when two ranks are out of order', () => {
+    expect(rankBetween('b', 'a') > 'b').toBe(true);
+  });
+});
+
+describe('ranksBetween', () => {
+  it('spreads ranks evenly, so long lists keep short ranks', () => {
+    const ranks = ranksBetween(null, null, 3000);
+
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(new Set(ranks).size).toBe(ranks.length);
+    expect(Math.max(...ranks.map(rank => rank.length))).toBeLessThanOrEqual(3);
+  });
+});
+
+describe('compareRanks', () => {
+  it('breaks ties between equal ranks by card id', () => {
+    const cards = [{ rank: 'V', id: 2 }, { rank: 'V', id: 1 }, { rank: 'A', id: 3 }];
+    expect([...cards].sort(compareRanks).map(card => card.id)).toEqual([3, 1, 2]);
+  });
+});
@@ -0,0 +1,50 @@
+// Ordering keys for cards. A rank is a base-62 fraction written without the leading "0." and without
+// trailing zeros, so plain string comparison orders them and there is always room between two ranks.
+// Moving a card only changes its own rank, which keeps two people's moves from renumbering each other.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+const RANK_PATTERN = /^[0-9A-Za-z]*[1-9A-Za-z]$/;
+
+export const isRank = (value: string): boolean => RANK_PATTERN.test(value);
+
+// `a` may be empty (zero) and `b` null (one); `a` < `b`.
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let common = 0;
+    while ((a[common] ?? '0') === b[common]) common++;
+    if (common > 0) return b.slice(0, common) + midpoint(a.slice(common), b.slice(common));
+  }
+
+  const low = a ? DIGITS.indexOf(a[0]) : 0;
+  const high = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+
+  if (high - low > 1) return DIGITS[Math.round((low + high) / 2)];
+  // Adjacent digits: `b` cut to its first digit still sorts after `a`, unless that is all of `b`.
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[low] + midpoint(a.slice(1), null);
+};
+
+// A rank strictly between `before` and `after`; null stands for the start or the end of the list.
+export const rankBetween = (before: string | null, after: string | null): string => {
+  // Two people can give cards the same rank. Nothing fits between equal ranks, so callers rank the later
+  // card afresh as well; should a tie reach here anyway, the result at least sorts after `before`.
+  if (before !== null && after !== null && before >= after) return `${before}V`;
+  return midpoint(before ?? '', after);
+};
+
+// `count` ranks spread evenly between two others, so a batch or a whole column stays short.
+export const ranksBetween = (before: string | null, after: string | null, count: number): string[] => {
+  if (count <= 0) return [];
+
+  const middle = Math.floor(count / 2);
+  const rank = rankBetween(before, after);
+  return [...ranksBetween(before, rank, middle), rank, ...ranksBetween(rank, after, count - middle - 1)];
+};
+
+// Rank order, with the card id deciding between equal ranks.
+export const compareRanks = (a: { rank: string; id: number }, b: { rank: string; id: number }): number => {
+  if (a.rank !== b.rank) return a.rank < b.rank ? -1 : 1;
+  return a.id - b.id;
+};
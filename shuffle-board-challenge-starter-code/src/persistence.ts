@@ -0,0 +1,56 @@
+import type { Column } from './board';
+import { parseBoard, serializeBoard } from './boardFile';
+
+const STORAGE_KEY = 'shuffle-board:board';
+
+const BACKUP_STORAGE_KEY = 'shuffle-board:unreadable-board';
+
+export interface LoadedBoard {
+  // Null opens the sample board.
+  columns: Column[] | null;
+  error: string | null;
+}
+
+export const loadBoard = (): LoadedBoard => {
+  let text: string | null;
+  try {
+    text = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return { columns: null, error: 'Browser storage is disabled, so changes will not be kept on this device.' };
+  }
+  if (!text) return { columns: null, error: null };
+
+  try {
+    return { columns: parseBoard(text), error: null };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    // The next change overwrites the save, so an unreadable one is set aside first.
+    try {
+      localStorage.setItem(BACKUP_STORAGE_KEY, text);
+    } catch {
+      return { columns: null, error: `The saved board could not be opened: ${reason}` };
+    }
+    return {
+      columns: null,
+      error: `The saved board could not be opened: ${reason} A copy is kept in browser storage under “${BACKUP_STORAGE_KEY}”.`
+    };
+  }
+};
+
+export const saveBoard = (columns: Column[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeBoard(columns));
+  } catch {
+    // This runs on every board change, drops included; a full quota is not worth interrupting one for.
+  }
+};
+
+export const downloadFile = (contents: string, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers only start reading the blob after this task ends, so the URL has to outlive it.
+  window.setTimeout(() => URL.revokeObjectURL(url));
+};
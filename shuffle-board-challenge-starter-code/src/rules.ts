@@ -0,0 +1,29 @@
+import type { CardPosition, Column } from './board';
+
+// Why dropping `cardIds` at `target` is refused, or null when every rule allows it. Reordering within
+// a column is always allowed: it changes neither the column's card count nor any card's stage.
+export const dropRejection = (columns: Column[], cardIds: number[], target: CardPosition): string | null => {
+  const targetColumn = columns.find(column => column.id === target.columnId);
+  if (!targetColumn) return null;
+
+  const incoming = columns
+    .filter(column => column.id !== targetColumn.id)
+    .flatMap(column => column.cards.filter(card => cardIds.includes(card.id)).map(card => ({ card, column })));
+  if (incoming.length === 0) return null;
+
+  const blocked = incoming.find(({ card }) => card.blocked);
+  if (blocked) return `“${blocked.card.title}” is blocked and can't leave ${blocked.column.title}.`;
+
+  const refused = incoming.find(({ column }) => targetColumn.rejectsFrom.includes(column.id));
+  if (refused) return `${targetColumn.title} doesn't take cards from ${refused.column.title}.`;
+
+  const limit = targetColumn.wipLimit;
+  if (limit !== null && targetColumn.cards.length + incoming.length > limit) {
+    return `${targetColumn.title} is limited to ${limit} ${limit === 1 ? 'card' : 'cards'}.`;
+  }
+
+  return null;
+};
+
+export const overWipLimit = (column: Column): boolean =>
+  column.wipLimit !== null && column.cards.length > column.wipLimit;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addCard,
+  addColumn,
+  deleteCard,
+  emptyCard,
+  findCard,
+  initialColumns,
+  moveCard,
+  moveColumn,
+  removeColumn,
+  renameColumn
+} from './board';
+import { describeMutation, diffBoards, revertMutation } from './sync';
+
+describe('diffBoards', () => {
+  it('finds nothing to send for an unchanged board', () => {
+    expect(diffBoards(initialColumns, initialColumns)).toEqual([]);
+  });
+
+  it('sends only the moved card, with its new column and rank', () => {
+    const moved = moveCard(initialColumns, 1, { columnId: 2, index: 1 });
+
+    expect(diffBoards(initialColumns, moved)).toEqual([
+      { type: 'putCard', columnId: 2, card: findCard(moved, 1) }
+    ]);
+  });
+
+  it('creates a column before moving cards into it and deletes one after they left', () => {
+    const added = addColumn(initialColumns, 'Review');
+    const filled = removeColumn(added, 1, { action: 'move', targetColumnId: 3 });
+
+    expect(diffBoards(initialColumns, filled).map(mutation => mutation.type)).toEqual([
+      'putColumn',
+      'putCard',
+      'putCard',
+      'putCard',
+      'putCard',
+      'deleteColumn'
+    ]);
+  });
+
+  it('sends the column order only when it changed', () => {
+    const reordered = moveColumn(initialColumns, 1, 0);
+
+    expect(diffBoards(initialColumns, reordered)).toEqual([{ type: 'orderColumns', columnIds: [2, 1] }]);
+    expect(diffBoards(initialColumns, removeColumn(initialColumns, 1, { action: 'delete' })).at(-1))
+      .toEqual({ type: 'deleteColumn', columnId: 1 });
+  });
+});
+
+describe('revertMutation', () => {
+  it('puts a refused move back and keeps the changes made since', () => {
+    const moved = moveCard(initialColumns, 1, { columnId: 2, index: 0 });
+    const [mutation] = diffBoards(initialColumns, moved);
+    const later = addCard(moved, 2, { ...emptyCard('bg-blue-200'), title: 'Added while saving' });
+
+    const reverted = revertMutation(later, initialColumns, mutation);
+
+    expect(reverted[0]).toEqual(initialColumns[0]);
+    expect(reverted[1].cards.map(card => card.title)).toEqual(
+      [...initialColumns[1].cards.map(card => card.title), 'Added while saving']
+    );
+  });
+
+  it('brings back a deleted card and a deleted column', () => {
+    const withoutCard = deleteCard(initialColumns, 2);
+    expect(revertMutation(withoutCard, initialColumns, { type: 'deleteCard', cardId: 2 })).toEqual(initialColumns);
+
+    const emptied = initialColumns.map(column => column.id === 2 ? { ...column, cards: [] } : column);
+    const withoutColumn = removeColumn(emptied, 2, { action: 'delete' });
+    expect(revertMutation(withoutColumn, emptied, { type: 'deleteColumn', columnId: 2 }).map(column => column.id))
+      .toEqual([1, 2]);
+  });
+
+  it('undoes a refused rename or new column', () => {
+    const renamed = renameColumn(initialColumns, 1, 'Backlog');
+    const [rename] = diffBoards(initialColumns, renamed);
+    expect(revertMutation(renamed, initialColumns, rename)[0].title).toBe('To do');
+
+    const added = addColumn(initialColumns, 'Review');
+    const [create] = diffBoards(initialColumns, added);
+    expect(revertMutation(added, initialColumns, create)).toEqual(initialColumns);
+  });
+});
+
+describe('describeMutation', () => {
+  it('names what the user did', () => {
+    const moved = moveCard(initialColumns, 1, { columnId: 2, index: 0 });
+    const [mutation] = diffBoards(initialColumns, moved);
+
+    expect(describeMutation(initialColumns, mutation)).toBe('Moving “Sketch the onboarding flow” to Done');
+  });
+});
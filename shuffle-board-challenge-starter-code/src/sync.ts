@@ -0,0 +1,132 @@
+import { insertByRank, type Card, type Column } from './board';
+
+// A column without its cards, as the API stores it.
+export type ColumnFields = Omit<Column, 'cards'>;
+
+// One change the server has to make for it to hold the same board as the client.
+export type Mutation =
+  | { type: 'putColumn'; column: ColumnFields }
+  | { type: 'putCard'; columnId: number; card: Card }
+  | { type: 'deleteCard'; cardId: number }
+  | { type: 'deleteColumn'; columnId: number }
+  | { type: 'orderColumns'; columnIds: number[] };
+
+interface Located {
+  card: Card;
+  columnId: number;
+}
+
+const cardsById = (columns: Column[]): Map<number, Located> =>
+  new Map(columns.flatMap(column => column.cards.map(card => [card.id, { card, columnId: column.id }] as const)));
+
+const fieldsOf = ({ id, title, wipLimit, rejectsFrom }: Column): ColumnFields => ({ id, title, wipLimit, rejectsFrom });
+
+const sameFields = (a: Column, b: Column): boolean =>
+  a.title === b.title && a.wipLimit === b.wipLimit && a.rejectsFrom.join() === b.rejectsFrom.join();
+
+// The mutations that take the server from `before` to `after`. Board operations copy only what they
+// change, so an unchanged card is still the same object. Columns are created before cards move into
+// them and deleted after cards have left.
+export const diffBoards = (before: Column[], after: Column[]): Mutation[] => {
+  const beforeColumns = new Map(before.map(column => [column.id, column]));
+  const afterColumns = new Map(after.map(column => [column.id, column]));
+  const beforeCards = cardsById(before);
+  const afterCards = cardsById(after);
+  const mutations: Mutation[] = [];
+
+  after.forEach(column => {
+    const previous = beforeColumns.get(column.id);
+    if (!previous || !sameFields(previous, column)) mutations.push({ type: 'putColumn', column: fieldsOf(column) });
+  });
+  afterCards.forEach(({ card, columnId }) => {
+    const previous = beforeCards.get(card.id);
+    if (previous?.card !== card || previous.columnId !== columnId) mutations.push({ type: 'putCard', columnId, card });
+  });
+  beforeCards.forEach((_, cardId) => {
+    if (!afterCards.has(cardId)) mutations.push({ type: 'deleteCard', cardId });
+  });
+  before.forEach(column => {
+    if (!afterColumns.has(column.id)) mutations.push({ type: 'deleteColumn', columnId: column.id });
+  });
+
+  // The server keeps the columns that remain in order and appends new ones, as they were put.
+  const order = after.map(column => column.id);
+  const serverOrder = [...before.filter(column => afterColumns.has(column.id)), ...after.filter(column => !beforeColumns.has(column.id))];
+  if (order.join() !== serverOrder.map(column => column.id).join()) {
+    mutations.push({ type: 'orderColumns', columnIds: order });
+  }
+
+  return mutations;
+};
+
+// Brings back a column the board no longer has, empty and where it used to be.
+const restoreColumn = (columns: Column[], before: Column[], columnId: number): Column[] => {
+  const index = before.findIndex(column => column.id === columnId);
+  if (index === -1 || columns.some(column => column.id === columnId)) return columns;
+
+  const next = [...columns];
+  next.splice(Math.min(index, next.length), 0, { ...before[index], cards: [] });
+  return next;
+};
+
+// Puts a card back the way it was in `before`, or takes it off the board if it did not exist then.
+const restoreCard = (columns: Column[], before: Column[], cardId: number): Column[] => {
+  const previous = cardsById(before).get(cardId);
+  const without = columns.map(column =>
+    column.cards.some(card => card.id === cardId)
+      ? { ...column, cards: column.cards.filter(card => card.id !== cardId) }
+      : column
+  );
+  if (!previous) return without;
+
+  return restoreColumn(without, before, previous.columnId).map(column =>
+    column.id === previous.columnId ? { ...column, cards: insertByRank(column.cards, previous.card) } : column
+  );
+};
+
+// Undoes a mutation the server refused, leaving every other change made since in place. `before` is
+// the board the mutation was computed from, which is what the server still has for that card or column.
+export const revertMutation = (columns: Column[], before: Column[], mutation: Mutation): Column[] => {
+  switch (mutation.type) {
+    case 'putCard':
+      return restoreCard(columns, before, mutation.card.id);
+    case 'deleteCard':
+      return restoreCard(columns, before, mutation.cardId);
+    case 'deleteColumn':
+      return restoreColumn(columns, before, mutation.columnId);
+    case 'putColumn': {
+      const previous = before.find(column => column.id === mutation.column.id);
+      if (!previous) return columns.filter(column => column.id !== mutation.column.id);
+      return columns.map(column => column.id === previous.id ? { ...column, ...fieldsOf(previous) } : column);
+    }
+    case 'orderColumns': {
+      const order = new Map(before.map((column, index) => [column.id, index]));
+      return [...columns].sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+    }
+  }
+};
+
+// What the user was doing, for the message that says it did not stick, e.g. "Moving “Set up CI” to Done".
+export const describeMutation = (before: Column[], mutation: Mutation): string => {
+  const titleOf = (columnId: number) => before.find(column => column.id === columnId)?.title ?? 'a new column';
+
+  switch (mutation.type) {
+    case 'putCard': {
+      const previous = cardsById(before).get(mutation.card.id);
+      if (!previous) return `Creating “${mutation.card.title}”`;
+      if (previous.columnId !== mutation.columnId) return `Moving “${mutation.card.title}” to ${titleOf(mutation.columnId)}`;
+      if (previous.card.rank !== mutation.card.rank) return `Reordering “${mutation.card.title}”`;
+      return `Saving “${mutation.card.title}”`;
+    }
+    case 'deleteCard':
+      return `Deleting “${cardsById(before).get(mutation.cardId)?.card.title ?? 'a card'}”`;
+    case 'putColumn':
+      return before.some(column => column.id === mutation.column.id)
+        ? `Saving column “${mutation.column.title}”`
+        : `Adding column “${mutation.column.title}”`;
+    case 'deleteColumn':
+      return `Deleting column “${titleOf(mutation.columnId)}”`;
+    case 'orderColumns':
+      return 'Reordering columns';
+  }
+};
@@ -0,0 +1,85 @@
+import { useCallback, useState } from 'react';
+import type { Column } from './board';
+
+// One recorded command: what the user did, when, and the board it left behind.
+export interface HistoryEntry {
+  id: number;
+  description: string;
+  at: number;
+  columns: Column[];
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  // The entry the board currently shows. Entries after it are the redo stack until the next command.
+  index: number;
+}
+
+export interface BoardHistory {
+  columns: Column[];
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (description: string, update: (columns: Column[]) => Column[]) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+  // Starts a fresh history from `columns`, for a board that was replaced rather than edited.
+  reset: (description: string, columns: Column[]) => void;
+}
+
+// Snapshot history for the board. Every command keeps the whole board it produced, which makes undo,
+// redo and jumping to any entry in the activity log the same operation.
+export default function useBoardHistory(initial: () => Column[]): BoardHistory {
+  const [state, setState] = useState<HistoryState>(() => ({
+    entries: [{ id: 0, description: 'Board opened', at: Date.now(), columns: initial() }],
+    index: 0
+  }));
+
+  const record = useCallback((description: string, update: (columns: Column[]) => Column[]): void => {
+    setState(prev => {
+      const current = prev.entries[prev.index];
+      const columns = update(current.columns);
+      if (columns === current.columns) return prev;
+
+      const kept = prev.entries.slice(0, prev.index + 1);
+      return {
+        entries: [...kept, { id: current.id + 1, description, at: Date.now(), columns }],
+        index: kept.length
+      };
+    });
+  }, []);
+
+  const jumpTo = useCallback((index: number): void => {
+    setState(prev => index >= 0 && index < prev.entries.length ? { ...prev, index } : prev);
+  }, []);
+
+  const undo = useCallback((): void => {
+    setState(prev => prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev);
+  }, []);
+
+  const redo = useCallback((): void => {
+    setState(prev => prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev);
+  }, []);
+
+  const reset = useCallback((description: string, columns: Column[]): void => {
+    setState(prev => ({
+      entries: [{ id: prev.entries[prev.entries.length - 1].id + 1, description, at: Date.now(), columns }],
+      index: 0
+    }));
+  }, []);
+
+  return {
+    columns: state.entries[state.index].columns,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    record,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+}
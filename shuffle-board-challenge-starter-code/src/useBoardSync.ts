@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, fetchBoard, sendMutation } from './api';
+import { findCard, type Column } from './board';
+import { describeMutation, diffBoards, revertMutation, type Mutation } from './sync';
+
+export type SyncStatus = 'connecting' | 'saving' | 'saved' | 'offline';
+
+// A change the server refused, or a board it could not load; shown as a toast until dismissed.
+export interface SyncFailure {
+  id: number;
+  message: string;
+}
+
+// Waits between attempts to reach the server, doubling from the first to the last.
+const FIRST_RETRY_DELAY = 1000;
+const LAST_RETRY_DELAY = 30000;
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => window.setTimeout(resolve, ms));
+
+// Repeats `request` for as long as the server cannot be reached, backing off between attempts, unless
+// `stopped` says nobody is waiting any more. An answer the server refuses is thrown straight away.
+const untilReachable = async <T>(
+  request: () => Promise<T>,
+  onUnreachable: () => void,
+  stopped: () => boolean = () => false
+): Promise<T> => {
+  for (let delay = FIRST_RETRY_DELAY; ; delay = Math.min(delay * 2, LAST_RETRY_DELAY)) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 0 || stopped()) throw error;
+      onUnreachable();
+      await wait(delay);
+    }
+  }
+};
+
+interface BoardSyncOptions {
+  columns: Column[];
+  // Whether the board was opened from this browser's save. That board is the user's, so it wins over
+  // the server's; the sample board only does once it has been edited.
+  local: boolean;
+  record: (description: string, update: (columns: Column[]) => Column[]) => void;
+  reset: (description: string, columns: Column[]) => void;
+}
+
+export interface BoardSync {
+  status: SyncStatus;
+  failures: SyncFailure[];
+  dismissFailure: (id: number) => void;
+}
+
+// Keeps the server's board in step with this one. Every change shows at once and is sent in the
+// background as mutations, one request at a time and in order. A mutation the server refuses is
+// reverted on its own, as a new history entry, and reported; the changes around it stay. One that
+// cannot reach the server is not a refusal: it is retried, with everything queued behind it, until
+// the server answers. Loading the board is retried the same way; edits made until it loads are sent
+// once it has, as the difference between the server's board and this one.
+export default function useBoardSync({ columns, local, record, reset }: BoardSyncOptions): BoardSync {
+  const [status, setStatus] = useState<SyncStatus>('connecting');
+  const [failures, setFailures] = useState<SyncFailure[]>([]);
+  // The board the server will hold once every queued mutation has landed; null until it has loaded.
+  const syncedRef = useRef<Column[] | null>(null);
+  const latestRef = useRef(columns);
+  const openedRef = useRef(columns);
+  const queueRef = useRef(Promise.resolve());
+  const pendingRef = useRef(0);
+  // Set while the board or a queued mutation is waiting for the server to be reachable again.
+  const offlineRef = useRef(false);
+  const failureIdRef = useRef(0);
+
+  useEffect(() => {
+    latestRef.current = columns;
+  });
+
+  const goOffline = useCallback((): void => {
+    offlineRef.current = true;
+    setStatus('offline');
+  }, []);
+
+  const reportFailure = useCallback((message: string): void => {
+    failureIdRef.current += 1;
+    setFailures(prev => [...prev, { id: failureIdRef.current, message }]);
+  }, []);
+
+  // Resolves once the server has accepted the mutation; rejects only when the server refuses it.
+  const deliver = useCallback(async (mutation: Mutation): Promise<void> => {
+    await untilReachable(() => sendMutation(mutation), goOffline);
+    offlineRef.current = false;
+    setStatus('saving');
+  }, [goOffline]);
+
+  // Queues whatever turns the board the server will hold into `after`.
+  const send = useCallback((after: Column[]): void => {
+    const before = syncedRef.current;
+    if (!before || before === after) return;
+    syncedRef.current = after;
+
+    diffBoards(before, after).forEach(mutation => {
+      pendingRef.current += 1;
+      if (!offlineRef.current) setStatus('saving');
+
+      queueRef.current = queueRef.current
+        .then(() => deliver(mutation))
+        .catch((error: unknown) => {
+          const description = describeMutation(before, mutation);
+          const reason = error instanceof ApiError ? error.message : String(error);
+          // A card changed again since is left alone: its newer mutation is already queued behind this one.
+          const superseded = mutation.type === 'putCard' && findCard(latestRef.current, mutation.card.id) !== mutation.card;
+
+          if (!superseded) {
+            const reverted = revertMutation(latestRef.current, before, mutation);
+            syncedRef.current = reverted;
+            latestRef.current = reverted;
+            record(`${description} rolled back`, () => reverted);
+          }
+          reportFailure(`${description} failed: ${reason}${superseded ? '' : ' It has been undone.'}`);
+        })
+        .finally(() => {
+          pendingRef.current -= 1;
+          if (pendingRef.current === 0) setStatus('saved');
+        });
+    });
+  }, [record, deliver, reportFailure]);
+
+  useEffect(() => {
+    send(columns);
+  }, [columns, send]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    untilReachable(fetchBoard, goOffline, () => cancelled).then(
+      board => {
+        if (cancelled) return;
+        offlineRef.current = false;
+        syncedRef.current = board;
+        if (!local && latestRef.current === openedRef.current) {
+          reset('Board loaded from the server', board);
+        } else {
+          send(latestRef.current);
+        }
+        if (pendingRef.current === 0) setStatus('saved');
+      },
+      (error: unknown) => {
+        if (cancelled) return;
+        setStatus('offline');
+        reportFailure(`Loading the board from the server failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [local, reset, send, goOffline, reportFailure]);
+
+  const dismissFailure = useCallback((id: number) => {
+    setFailures(prev => prev.filter(failure => failure.id !== id));
+  }, []);
+
+  return { status, failures, dismissFailure };
+}
@@ -0,0 +1,61 @@
+// Guess for a card that has not been measured yet; close to a card with a title and one line of text.
+export const ESTIMATED_CARD_HEIGHT = 96;
+
+// Vertical space between cards, the `mb-3` the cards used before the list was windowed.
+export const CARD_GAP = 12;
+
+// Extra pixels rendered above and below the visible part of a list, so fast scrolling shows no gaps.
+export const OVERSCAN = 600;
+
+export interface ListLayout {
+  // Top of each item relative to the start of the list, and its height without the gap.
+  offsets: number[];
+  heights: number[];
+  total: number;
+}
+
+export const computeLayout = (heights: number[]): ListLayout => {
+  const offsets: number[] = new Array(heights.length);
+  let top = 0;
+
+  heights.forEach((height, index) => {
+    offsets[index] = top;
+    top += height + CARD_GAP;
+  });
+
+  return { offsets, heights, total: Math.max(0, top - CARD_GAP) };
+};
+
+// First index in [0, count) for which `test` holds, or `count`; `test` must be false then true.
+const firstWhere = (count: number, test: (index: number) => boolean): number => {
+  let low = 0;
+  let high = count;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (test(middle)) high = middle;
+    else low = middle + 1;
+  }
+
+  return low;
+};
+
+// The items that overlap [top, bottom], as a half-open index range.
+export const visibleRange = (layout: ListLayout, top: number, bottom: number): [number, number] => {
+  const { offsets, heights } = layout;
+  const first = firstWhere(offsets.length, index => offsets[index] + heights[index] >= top);
+  const last = firstWhere(offsets.length, index => offsets[index] > bottom);
+  return [first, Math.max(first, last)];
+};
+
+// The drop slot for a pointer at `y` (list coordinates): before the first card whose midpoint is below
+// it. `placeholderAt` is the item index of a drop placeholder in the layout, which is not a card.
+export const slotAt = (layout: ListLayout, y: number, placeholderAt: number | null): number => {
+  const cardCount = layout.offsets.length - (placeholderAt === null ? 0 : 1);
+  const itemOf = (card: number): number => placeholderAt !== null && card >= placeholderAt ? card + 1 : card;
+
+  return firstWhere(cardCount, card => {
+    const item = itemOf(card);
+    return y < layout.offsets[item] + layout.heights[item] / 2;
+  });
+};